@@ -0,0 +1,382 @@
+/**
+ * A cache entry as persisted by a FetchCacheStorage
+ */
+export interface FetchCacheRecord<T = any> {
+  data: T;
+  /** Time the entry was written, in milliseconds since the epoch */
+  timestamp: number;
+  /** Duration in milliseconds the entry stays fresh */
+  ttl: number;
+}
+
+/**
+ * Persistent storage for the useFetch cache, set with `customCache.storage`.
+ * Methods may be synchronous or return promises; synchronous storages are read
+ * during the first render, so persisted data shows up without a loading state.
+ */
+export interface FetchCacheStorage {
+  get: (key: string) => FetchCacheRecord | undefined | Promise<FetchCacheRecord | undefined>;
+  set: (key: string, record: FetchCacheRecord) => void | Promise<void>;
+  remove: (key: string) => void | Promise<void>;
+  /** Every persisted entry, used to hydrate the memory cache on startup */
+  entries: () => [string, FetchCacheRecord][] | Promise<[string, FetchCacheRecord][]>;
+  clear: () => void | Promise<void>;
+}
+
+/**
+ * Options shared by the built-in cache storages
+ */
+export interface FetchCacheStorageOptions {
+  /**
+   * Namespace of the persisted keys
+   * @default 'light-hooks'
+   */
+  prefix?: string;
+  /**
+   * Version of the persisted entries. Entries written with another version are dropped,
+   * so bump it whenever the shape of the cached data changes.
+   * @default 1
+   */
+  version?: number | string;
+  /**
+   * Maximum number of persisted entries; the least recently used ones are evicted first
+   * @default Infinity
+   */
+  maxSize?: number;
+}
+
+interface StoredRecord extends FetchCacheRecord {
+  /** Last time the entry was read or written, used for LRU eviction */
+  accessedAt: number;
+}
+
+const toRecord = ({ data, timestamp, ttl }: StoredRecord): FetchCacheRecord => ({ data, timestamp, ttl });
+
+// Least recently used keys first
+const leastRecentlyUsed = (index: Map<string, number>, count: number): string[] =>
+  [...index.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, count)
+    .map(([key]) => key);
+
+/**
+ * Create a cache storage backed by a Web Storage object (localStorage, sessionStorage)
+ *
+ * Entries are JSON-serialized, so cached data must be JSON-compatible. When the quota
+ * is exceeded, the least recently used entries are evicted until the write succeeds.
+ *
+ * @param getStorage - Returns the Storage object, or undefined where it is unavailable
+ * @param options - Key namespace, version and size limit
+ */
+export const createWebStorageCache = (
+  getStorage: () => Storage | undefined,
+  options: FetchCacheStorageOptions = {}
+): FetchCacheStorage => {
+  const { prefix = 'light-hooks', version = 1, maxSize = Infinity } = options;
+  const namespace = `${prefix}:`;
+  const keyPrefix = `${namespace}v${version}:`;
+  // Access times of the persisted keys, built on first use
+  let index: Map<string, number> | undefined;
+
+  const getIndex = (storage: Storage): Map<string, number> => {
+    if (index) return index;
+    index = new Map();
+
+    for (let i = storage.length - 1; i >= 0; i--) {
+      const storageKey = storage.key(i);
+      if (!storageKey?.startsWith(namespace)) continue;
+
+      // Drop entries written by other versions
+      if (!storageKey.startsWith(keyPrefix)) {
+        storage.removeItem(storageKey);
+        continue;
+      }
+      try {
+        const record: StoredRecord = JSON.parse(storage.getItem(storageKey)!);
+        index.set(storageKey.slice(keyPrefix.length), record.accessedAt ?? 0);
+      } catch {
+        storage.removeItem(storageKey);
+      }
+    }
+    return index;
+  };
+
+  const evict = (storage: Storage, count: number) => {
+    const keys = getIndex(storage);
+    leastRecentlyUsed(keys, count).forEach((key) => {
+      storage.removeItem(keyPrefix + key);
+      keys.delete(key);
+    });
+  };
+
+  const write = (storage: Storage, key: string, record: StoredRecord) => {
+    const keys = getIndex(storage);
+    const value = JSON.stringify(record);
+    keys.delete(key);
+
+    while (true) {
+      try {
+        storage.setItem(keyPrefix + key, value);
+        keys.set(key, record.accessedAt);
+        return;
+      } catch (error) {
+        // Quota exceeded: make room, or give up once nothing is left to evict
+        if (keys.size === 0) throw error;
+        evict(storage, 1);
+      }
+    }
+  };
+
+  return {
+    get: (key) => {
+      const storage = getStorage();
+      if (!storage) return undefined;
+
+      const value = storage.getItem(keyPrefix + key);
+      if (value === null) return undefined;
+
+      try {
+        const record: StoredRecord = { ...JSON.parse(value), accessedAt: Date.now() };
+        write(storage, key, record);
+        return toRecord(record);
+      } catch {
+        storage.removeItem(keyPrefix + key);
+        getIndex(storage).delete(key);
+        return undefined;
+      }
+    },
+
+    set: (key, record) => {
+      const storage = getStorage();
+      if (!storage) return;
+
+      write(storage, key, { ...record, accessedAt: Date.now() });
+      const keys = getIndex(storage);
+      if (keys.size > maxSize) {
+        evict(storage, keys.size - maxSize);
+      }
+    },
+
+    remove: (key) => {
+      const storage = getStorage();
+      if (!storage) return;
+
+      storage.removeItem(keyPrefix + key);
+      getIndex(storage).delete(key);
+    },
+
+    entries: () => {
+      const storage = getStorage();
+      if (!storage) return [];
+
+      return [...getIndex(storage).keys()].flatMap((key): [string, FetchCacheRecord][] => {
+        const value = storage.getItem(keyPrefix + key);
+        return value === null ? [] : [[key, toRecord(JSON.parse(value))]];
+      });
+    },
+
+    clear: () => {
+      const storage = getStorage();
+      if (!storage) return;
+
+      [...getIndex(storage).keys()].forEach((key) => storage.removeItem(keyPrefix + key));
+      index = new Map();
+    },
+  };
+};
+
+// Web Storage throws on access when disabled (e.g. blocked cookies), and is missing during SSR
+const webStorage = (name: 'localStorage' | 'sessionStorage') => (): Storage | undefined => {
+  try {
+    return typeof window === 'undefined' ? undefined : window[name];
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Create a cache storage persisting entries in localStorage
+ *
+ * @example
+ * ```tsx
+ * import { useFetch, localStorageCache } from 'light-hooks';
+ *
+ * const storage = localStorageCache({ version: 2, maxSize: 50 });
+ *
+ * const { data } = useFetch('/api/articles', {
+ *   customCache: { key: 'articles', ttl: 60000, storage }
+ * });
+ * ```
+ */
+export const localStorageCache = (options?: FetchCacheStorageOptions): FetchCacheStorage =>
+  createWebStorageCache(webStorage('localStorage'), options);
+
+/**
+ * Create a cache storage persisting entries in sessionStorage
+ */
+export const sessionStorageCache = (options?: FetchCacheStorageOptions): FetchCacheStorage =>
+  createWebStorageCache(webStorage('sessionStorage'), options);
+
+/**
+ * Options for the IndexedDB cache storage
+ */
+export interface IndexedDBCacheOptions extends FetchCacheStorageOptions {
+  /**
+   * Name of the object store holding the entries
+   * @default 'fetch-cache'
+   */
+  storeName?: string;
+}
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Create a cache storage persisting entries in IndexedDB
+ *
+ * Suited to large responses and data that is not JSON-compatible (Blob, Date, Map...),
+ * since entries are stored with the structured clone algorithm. The database is named
+ * after `prefix`; `version` is part of the entry keys.
+ *
+ * @example
+ * ```tsx
+ * import { fetchCache, indexedDBCache } from 'light-hooks';
+ *
+ * export const storage = indexedDBCache({ maxSize: 200 });
+ *
+ * // Load every persisted entry before the first render
+ * await fetchCache.restore(storage);
+ * ```
+ */
+export const indexedDBCache = (options: IndexedDBCacheOptions = {}): FetchCacheStorage => {
+  const { prefix = 'light-hooks', version = 1, maxSize = Infinity, storeName = 'fetch-cache' } = options;
+  const keyPrefix = `v${version}:`;
+  let database: Promise<IDBDatabase | undefined> | undefined;
+  let index: Promise<Map<string, number>> | undefined;
+
+  // Open the database, upgrading it if it was created by a storage using another store name
+  const open = (upgradeFrom?: number) =>
+    new Promise<IDBDatabase | undefined>((resolve) => {
+      let blocked = false;
+      const request =
+        upgradeFrom === undefined ? indexedDB.open(prefix) : indexedDB.open(prefix, upgradeFrom + 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          db.close();
+          return;
+        }
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.close();
+          resolve(open(db.version));
+          return;
+        }
+        // Let other connections upgrade the database, and reopen it on next use
+        db.onversionchange = () => {
+          db.close();
+          database = undefined;
+        };
+        resolve(db);
+      };
+      // Another connection does not close for the upgrade: give up until the next use
+      request.onblocked = () => {
+        blocked = true;
+        database = undefined;
+        resolve(undefined);
+      };
+      request.onerror = () => resolve(undefined);
+    });
+
+  const openDatabase = () => {
+    database ??= typeof indexedDB === 'undefined' ? Promise.resolve(undefined) : open();
+    return database;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> => {
+    const db = await openDatabase();
+    if (!db) return undefined;
+    return promisifyRequest(action(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  // Access times of the persisted keys, dropping entries written by other versions
+  const getIndex = () => {
+    index ??= (async () => {
+      const keys = new Map<string, number>();
+      const storedKeys = ((await withStore('readonly', (store) => store.getAllKeys())) || []) as string[];
+      const records = ((await withStore('readonly', (store) => store.getAll())) || []) as StoredRecord[];
+
+      await Promise.all(
+        storedKeys.map((storedKey, i) =>
+          storedKey.startsWith(keyPrefix)
+            ? keys.set(storedKey.slice(keyPrefix.length), records[i]?.accessedAt ?? 0)
+            : withStore('readwrite', (store) => store.delete(storedKey))
+        )
+      );
+      return keys;
+    })();
+    return index;
+  };
+
+  const write = async (key: string, record: StoredRecord) => {
+    const keys = await getIndex();
+    await withStore('readwrite', (store) => store.put(record, keyPrefix + key));
+    keys.set(key, record.accessedAt);
+  };
+
+  const remove = async (key: string) => {
+    const keys = await getIndex();
+    keys.delete(key);
+    await withStore('readwrite', (store) => store.delete(keyPrefix + key));
+  };
+
+  return {
+    get: async (key) => {
+      const record = (await withStore('readonly', (store) => store.get(keyPrefix + key))) as
+        | StoredRecord
+        | undefined;
+      if (!record) return undefined;
+
+      await write(key, { ...record, accessedAt: Date.now() });
+      return toRecord(record);
+    },
+
+    set: async (key, record) => {
+      await write(key, { ...record, accessedAt: Date.now() });
+      const keys = await getIndex();
+      if (keys.size > maxSize) {
+        await Promise.all(leastRecentlyUsed(keys, keys.size - maxSize).map(remove));
+      }
+    },
+
+    remove,
+
+    entries: async () => {
+      const keys = await getIndex();
+      const records = await Promise.all(
+        [...keys.keys()].map(
+          async (key) =>
+            [key, (await withStore('readonly', (store) => store.get(keyPrefix + key))) as StoredRecord] as const
+        )
+      );
+      return records.flatMap(([key, record]): [string, FetchCacheRecord][] =>
+        record ? [[key, toRecord(record)]] : []
+      );
+    },
+
+    clear: async () => {
+      const keys = await getIndex();
+      await Promise.all([...keys.keys()].map(remove));
+    },
+  };
+};
@@ -83,11 +83,87 @@ export {
 // Fetch hook
 export {
   useFetch,
+  fetchCache,
+  createFetchCache,
+  HttpError,
+  TimeoutError,
+  NetworkError,
   type UseFetchOptions,
   type UseFetchReturn,
   type FetchMethod,
+  type FetchUrl,
+  type FetchConcurrency,
+  type FetchResponseType,
+  type FetchQuery,
+  type FetchProgress,
+  type FetchStreamMode,
+  type FetchStreamEvent,
+  type FetchSchema,
+  type FetchCache,
+  type RequestFetchCache,
+  type FetchDehydratedState,
+  type FetchInterceptors,
+  type FetchRequestStart,
+  type FetchRequestMetrics,
+  type FetchTraceOptions,
+  type FetchRequestContext,
+  type FetchResponseContext,
 } from "./useFetch";
 
+// Fetch configuration provider
+export {
+  FetchConfigProvider,
+  useFetchConfig,
+  type FetchConfig,
+  type FetchConfigProviderProps,
+} from "./useFetchConfig";
+
+// Persistent fetch cache storages
+export {
+  createWebStorageCache,
+  localStorageCache,
+  sessionStorageCache,
+  indexedDBCache,
+  type FetchCacheStorage,
+  type FetchCacheRecord,
+  type FetchCacheStorageOptions,
+  type IndexedDBCacheOptions,
+} from "./fetchCacheStorage";
+
+// Infinite fetch hook
+export {
+  useInfiniteFetch,
+  type UseInfiniteFetchOptions,
+  type UseInfiniteFetchReturn,
+} from "./useInfiniteFetch";
+
+// GraphQL hook
+export {
+  useGraphQL,
+  GraphQLError,
+  type UseGraphQLOptions,
+  type GraphQLErrorDetail,
+} from "./useGraphQL";
+
+// Offline request queue
+export {
+  useOfflineQueue,
+  offlineQueue,
+  type UseOfflineQueueReturn,
+  type OfflineQueue,
+  type OfflineQueueItem,
+  type OfflineQueueOptions,
+  type OfflineQueueStatus,
+  type OfflineRequestInit,
+} from "./useOfflineQueue";
+
+// Mutation hook
+export {
+  useMutation,
+  type UseMutationOptions,
+  type UseMutationReturn,
+} from "./useMutation";
+
 // Toggle hook
 export { useToggle, type UseToggleReturn } from "./useToggle";
 
@@ -103,6 +179,10 @@ export {
   usePolling,
   type UsePollingOptions,
   type UsePollingResults,
+  type UsePollingBackoff,
+  type UsePollingContext,
+  type UsePollingCompleteReason,
+  type UsePollingPauseReason,
 } from "./usePolling";
 
 // Future hooks will be exported here
@@ -1,209 +1,1945 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FetchCacheRecord, FetchCacheStorage } from './fetchCacheStorage';
+import { applyFetchConfig, useFetchConfig } from './useFetchConfig';
+import { offlineQueue } from './useOfflineQueue';
 
 /**
  * HTTP methods supported by useFetch
  */
 export type FetchMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
 
+/**
+ * URL accepted by useFetch. `null`, or a function returning `null` or throwing,
+ * means the request is not ready to be made yet.
+ */
+export type FetchUrl = string | null | (() => string | null);
+
+/**
+ * How overlapping `execute` calls of a single useFetch behave
+ * - 'cancel-previous': abort the request in flight and start the new one
+ * - 'ignore-new': keep the request in flight and return its result to the new call
+ * - 'queue': start the new request once the previous ones have settled
+ * - 'parallel': run both; a response never overwrites data from a more recent request
+ */
+export type FetchConcurrency = 'cancel-previous' | 'ignore-new' | 'queue' | 'parallel';
+
+/**
+ * How the response body is read. 'auto' picks a strategy from the content-type header.
+ */
+export type FetchResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'formData' | 'auto';
+
+/**
+ * Query parameters appended to the request URL. Arrays add one parameter per item,
+ * null and undefined values are skipped.
+ */
+export type FetchQuery = Record<
+  string,
+  string | number | boolean | null | undefined | Array<string | number | boolean>
+>;
+
+/**
+ * Progress of an upload or download
+ */
+export interface FetchProgress {
+  /** Bytes transferred so far */
+  loaded: number;
+  /** Total bytes to transfer, or null if unknown */
+  total: number | null;
+  /** Percentage transferred (0-100), or null if the total is unknown */
+  percent: number | null;
+}
+
+/**
+ * How a streamed response body is split into chunks
+ * - 'text': every decoded piece of text as it arrives
+ * - 'ndjson': one parsed JSON value per line
+ * - 'sse': one event per `text/event-stream` message
+ */
+export type FetchStreamMode = 'text' | 'ndjson' | 'sse';
+
+/**
+ * A server-sent event read from a `text/event-stream` response
+ */
+export interface FetchStreamEvent {
+  /** Event type (defaults to 'message') */
+  event: string;
+  /** Event data, with multiple data lines joined by newlines */
+  data: string;
+  /** Last event id, if sent */
+  id?: string;
+  /** Reconnection time advised by the server in milliseconds, if sent */
+  retry?: number;
+}
+
+/**
+ * Any schema-like object (zod, yup, valibot wrappers, ...) able to parse a value
+ */
+export interface FetchSchema<T> {
+  /** Returns the validated value or throws if it does not match the schema */
+  parse: (data: unknown) => T;
+}
+
+/**
+ * A request as seen by request interceptors
+ */
+export interface FetchRequestContext {
+  /** Resolved request URL */
+  url: string;
+  /** Options passed to fetch */
+  init: RequestInit;
+}
+
+/**
+ * A response as seen by response interceptors
+ */
+export interface FetchResponseContext extends FetchRequestContext {
+  /** HTTP response object */
+  response: Response;
+  /** Parsed response body, before transform runs */
+  data: any;
+}
+
+/**
+ * A request as reported to `onRequestStart`
+ */
+export interface FetchRequestStart {
+  /** Request URL, including query parameters */
+  url: string;
+  method: FetchMethod;
+  /** Time the request started, in milliseconds since the epoch */
+  startTime: number;
+  /**
+   * Trace header value sent with the request, if tracing is enabled. Absent for cache hits
+   * and for requests joining an identical one in flight, since no header was sent for them.
+   */
+  trace?: string;
+}
+
+/**
+ * A completed request as reported to `onRequestEnd`
+ */
+export interface FetchRequestMetrics extends FetchRequestStart {
+  /** Time in milliseconds from the start of the request to its result */
+  duration: number;
+  /** HTTP status of the last response, or null for cache hits, network errors and timeouts */
+  status: number | null;
+  /** Number of attempts made, including retries (0 for cache hits and deduplicated requests) */
+  attempts: number;
+  /** Whether the data was served from a fresh cache entry without a request */
+  cacheHit: boolean;
+  /**
+   * Whether the request joined an identical one already in flight instead of being sent.
+   * That request is reported too, so leave these out when counting requests or errors.
+   */
+  deduped: boolean;
+  /** Size of the response body, or null when it is unknown or the request was deduplicated */
+  bytes: number | null;
+  /** Error the request failed with, or null if it succeeded */
+  error: Error | null;
+}
+
+/**
+ * Trace header injected into every request
+ */
+export interface FetchTraceOptions {
+  /**
+   * Name of the header
+   * @default 'traceparent'
+   */
+  header?: string;
+  /**
+   * Creates the header value of a request
+   * @default A random W3C Trace Context `traceparent`
+   */
+  generate?: () => string;
+}
+
+/**
+ * Interceptor chains run, in order, around every request attempt
+ */
+export interface FetchInterceptors {
+  /** Rewrite a request before it is sent (e.g. inject a refreshed token) */
+  request?: Array<(request: FetchRequestContext) => FetchRequestContext | Promise<FetchRequestContext>>;
+  /**
+   * Inspect or rewrite a response before its status is checked and transform runs
+   * (e.g. unwrap an envelope or log out on 401). Throwing fails the request.
+   */
+  response?: Array<(response: FetchResponseContext) => FetchResponseContext | Promise<FetchResponseContext>>;
+}
+
 /**
  * Configuration options for the useFetch hook
  */
-export interface UseFetchOptions<T = any> {
-  /**
-   * HTTP method to use
-   * @default 'GET'
-   */
-  method?: FetchMethod;
-  /**
-   * Request body data
-   */
-  body?: any;
-  /**
-   * Whether to automatically execute the request on mount
-   * @default true
-   */
-  immediate?: boolean;
-  /**
-   * Function to transform response data
-   */
-  transform?: (data: any) => T;
-  /**
-   * Retry configuration
-   */
-  retry?: {
-    /** Number of retry attempts */
-    attempts?: number;
-    /** Delay between retries in milliseconds */
-    delay?: number;
-    /** Whether to retry on specific status codes */
-    retryOn?: number[];
+export interface UseFetchOptions<T = any> {
+  /**
+   * HTTP method to use
+   * @default 'GET'
+   */
+  method?: FetchMethod;
+  /**
+   * Request body data. Plain objects and arrays are serialized to JSON; FormData, Blob,
+   * URLSearchParams, ArrayBuffer and strings are sent as is with the matching content type.
+   */
+  body?: any;
+  /**
+   * Query parameters encoded into the URL's search params
+   */
+  query?: FetchQuery;
+  /**
+   * Whether to automatically execute the request on mount
+   * @default true
+   */
+  immediate?: boolean;
+  /**
+   * Whether automatic requests (on mount, dependency changes, refetches and invalidation)
+   * are allowed. Calling `execute` manually still works.
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Function to transform response data
+   */
+  transform?: (data: any) => T;
+  /**
+   * How to read the response body. Bodies of 204, 205 and 304 responses
+   * and of HEAD requests are always null.
+   * @default 'auto'
+   */
+  responseType?: FetchResponseType;
+  /**
+   * Schema used to validate the (transformed) data at runtime.
+   * A failed validation is reported as the request error and nothing is cached.
+   */
+  validate?: FetchSchema<T>;
+  /**
+   * Retry configuration
+   */
+  retry?: {
+    /** Number of retry attempts */
+    attempts?: number;
+    /** Delay between retries in milliseconds (base delay for exponential backoff) */
+    delay?: number;
+    /**
+     * Status codes that should be retried
+     * @default [429, 500, 502, 503, 504]
+     */
+    retryOn?: number[];
+    /**
+     * How the delay grows between attempts
+     * @default 'fixed'
+     */
+    backoff?: 'fixed' | 'exponential';
+    /**
+     * Multiplier applied to the delay on each attempt with exponential backoff
+     * @default 2
+     */
+    factor?: number;
+    /**
+     * Upper bound for the delay between attempts in milliseconds
+     * @default 30000
+     */
+    maxDelay?: number;
+    /**
+     * Whether to randomize each delay between 0 and its computed value
+     * @default false
+     */
+    jitter?: boolean;
+    /**
+     * Whether to wait as long as the `Retry-After` header asks on 429 and 503 responses
+     * @default true
+     */
+    respectRetryAfter?: boolean;
+    /**
+     * Decides whether a failed attempt is retried, replacing the `retryOn` check.
+     * `response` is null for network errors and timeouts. Only called while attempts remain.
+     */
+    shouldRetry?: (error: Error, response: Response | null, attempt: number) => boolean;
+  };
+  /**
+   * Custom cache configuration (separate from browser cache)
+   */
+  customCache?: {
+    /** Cache key for storing response */
+    key?: string;
+    /**
+     * Cache duration in milliseconds. Entries older than this are considered stale.
+     * @default 0
+     */
+    ttl?: number;
+    /**
+     * Whether to serve stale entries immediately while refetching in the background
+     * @default true
+     */
+    staleWhileRevalidate?: boolean;
+    /**
+     * Persistent storage the entry is written to and hydrated from when it is not in memory,
+     * e.g. `localStorageCache()` or `indexedDBCache()`
+     */
+    storage?: FetchCacheStorage;
+  };
+  /**
+   * Request timeout in milliseconds
+   * @default 10000
+   */
+  timeout?: number;
+  /**
+   * Dependencies that trigger a refetch when changed
+   */
+  deps?: any[];
+  /**
+   * Whether to add non-GET requests made while offline, or failing with a network error,
+   * to the offline queue, which replays them in order once the connection returns.
+   * Only requests whose body can be persisted (JSON, strings) are queued, and credential
+   * headers are left out: add them back with the queue's `prepareRequest`.
+   * @default false
+   */
+  offlineQueue?: boolean;
+  /**
+   * How overlapping `execute` calls behave
+   * @default 'cancel-previous'
+   */
+  concurrency?: FetchConcurrency;
+  /**
+   * Suspend the component while there is no data, and throw request errors to the nearest
+   * error boundary. Data is kept in the shared cache, under `customCache.key` or a key
+   * derived from the method and URL, so it can be read synchronously once loaded.
+   * @default false
+   */
+  suspense?: boolean;
+  /** Called when a request starts, including requests served from the cache */
+  onRequestStart?: (request: FetchRequestStart) => void;
+  /** Called with the timing and outcome of every request, e.g. to report API latency */
+  onRequestEnd?: (metrics: FetchRequestMetrics) => void;
+  /**
+   * Send a trace header with every request so backend traces can be correlated.
+   * `true` sends a W3C `traceparent` header.
+   * @default false
+   */
+  trace?: boolean | FetchTraceOptions;
+  /**
+   * Time in milliseconds after which data is considered stale by the focus and reconnect refetches,
+   * and by the mount request when `initialData` is given
+   * @default customCache.ttl, or 0
+   */
+  staleTime?: number;
+  /**
+   * Data to start with, e.g. rendered by the server. It is stored under `customCache.key`
+   * when that entry is empty, and the mount request is skipped until it is older than `staleTime`.
+   */
+  initialData?: T | (() => T);
+  /**
+   * Time `initialData` was fetched at, in milliseconds since the epoch
+   * @default Date.now() on mount
+   */
+  initialDataUpdatedAt?: number;
+  /**
+   * Data shown while there is none yet. Unlike `initialData`, it is never cached
+   * and does not prevent the mount request.
+   */
+  placeholderData?: T | (() => T);
+  /**
+   * Whether to refetch stale data when the window regains focus
+   * @default false
+   */
+  refetchOnWindowFocus?: boolean;
+  /**
+   * Whether to refetch stale data when the browser goes back online
+   * @default false
+   */
+  refetchOnReconnect?: boolean;
+  /**
+   * Whether `fetchCache.invalidate` refetches the entry, once this hook has run.
+   * Set it for queries sent with another method, e.g. GraphQL queries over POST.
+   * @default true for GET and HEAD requests, false otherwise
+   */
+  refetchOnInvalidate?: boolean;
+  /**
+   * Interval in milliseconds at which to refetch, paused while the document is hidden
+   */
+  refetchInterval?: number;
+  /**
+   * Additional fetch options (headers, credentials, etc.)
+   */
+  fetchOptions?: Omit<RequestInit, 'method' | 'body'>;
+  /**
+   * Read the response body incrementally instead of waiting for all of it.
+   * `data` is updated with the accumulated value as chunks arrive, and `timeout`
+   * becomes an idle timeout between chunks. `transform` and `validate` run on the final value.
+   */
+  stream?: FetchStreamMode;
+  /**
+   * Called for every streamed chunk with the value accumulated so far
+   */
+  onChunk?: (chunk: any, accumulated: any) => void;
+  /**
+   * Reducer folding streamed chunks into `data` (`accumulated` is undefined for the first chunk).
+   * Defaults to concatenating text chunks and collecting NDJSON values and events into an array.
+   */
+  accumulate?: (accumulated: any, chunk: any) => any;
+  /**
+   * How the request is sent. Upload progress can only be reported with 'xhr'.
+   * @default 'xhr' when onUploadProgress is set, 'fetch' otherwise
+   */
+  transport?: 'fetch' | 'xhr';
+  /**
+   * Called as the request body is uploaded (requires the 'xhr' transport)
+   */
+  onUploadProgress?: (progress: FetchProgress) => void;
+  /**
+   * Called as the response body is downloaded, using Content-Length for the total
+   */
+  onDownloadProgress?: (progress: FetchProgress) => void;
+  /**
+   * Request and response interceptors, run after the ones from FetchConfigProvider
+   */
+  interceptors?: FetchInterceptors;
+}
+
+/**
+ * Return values from the useFetch hook
+ */
+export interface UseFetchReturn<T> {
+  /** The response data */
+  data: T | null;
+  /** Whether a request is in progress and there is no cached data to show */
+  loading: boolean;
+  /** Whether a request is in progress, including background revalidation */
+  isValidating: boolean;
+  /** Error object if request failed (an HttpError, TimeoutError or NetworkError for request failures) */
+  error: Error | null;
+  /** HTTP response object */
+  response: Response | null;
+  /** Function to manually trigger the request */
+  execute: (overrideOptions?: Partial<UseFetchOptions<T>>) => Promise<T | null>;
+  /** Function to abort the current request */
+  abort: () => void;
+  /** Function to reset the state */
+  reset: () => void;
+  /** Whether the request was aborted */
+  aborted: boolean;
+  /** Current retry attempt of the request (0 while the first attempt is in flight) */
+  attempt: number;
+  /** Upload or download progress of the current request, null until reported */
+  progress: FetchProgress | null;
+  /** Whether `data` is the `placeholderData` */
+  isPlaceholderData: boolean;
+  /** Whether the last request was added to the offline queue instead of completing */
+  queued: boolean;
+}
+
+/**
+ * Error thrown when a request completes with a non-2xx status
+ */
+export class HttpError<B = any> extends Error {
+  /** HTTP status code */
+  readonly status: number;
+  /** HTTP status text */
+  readonly statusText: string;
+  /** Parsed response body, or null if it could not be parsed */
+  readonly body: B;
+  /** Response headers */
+  readonly headers: Headers;
+  /** URL the request was sent to */
+  readonly url: string;
+  /** Number of attempts made, including retries */
+  readonly attempts: number;
+  /** HTTP response object */
+  readonly response: Response;
+
+  constructor(response: Response, body: B, url: string, attempts: number) {
+    super(`HTTP ${response.status}: ${response.statusText}`);
+    this.name = 'HttpError';
+    this.status = response.status;
+    this.statusText = response.statusText;
+    this.body = body;
+    this.headers = response.headers;
+    this.url = url;
+    this.attempts = attempts;
+    this.response = response;
+  }
+}
+
+/**
+ * Error thrown when a request takes longer than its timeout
+ */
+export class TimeoutError extends Error {
+  /** Timeout that was exceeded, in milliseconds */
+  readonly timeout: number;
+  /** URL the request was sent to */
+  readonly url: string;
+  /** Number of attempts made, including retries */
+  readonly attempts: number;
+
+  constructor(timeout: number, url: string, attempts: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+    this.url = url;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Error thrown when a request fails before any response is received
+ */
+export class NetworkError extends Error {
+  /** URL the request was sent to */
+  readonly url: string;
+  /** Number of attempts made, including retries */
+  readonly attempts: number;
+  /** Original error thrown by fetch */
+  readonly originalError: unknown;
+
+  constructor(originalError: unknown, url: string, attempts: number) {
+    super(originalError instanceof Error ? originalError.message : 'Network error');
+    this.name = 'NetworkError';
+    this.url = url;
+    this.attempts = attempts;
+    this.originalError = originalError;
+  }
+}
+
+interface CacheEntry<T = any> {
+  data: T;
+  timestamp: number;
+  ttl: number;
+}
+
+/** Kind of change a cache listener is notified about */
+type CacheEvent = 'update' | 'invalidate' | 'clear';
+
+type CacheListener = (event: CacheEvent) => void;
+
+interface RequestResult {
+  data: any;
+  response: Response;
+}
+
+interface InflightRequest {
+  promise: Promise<RequestResult>;
+  controller: AbortController;
+  refs: number;
+}
+
+interface RequestConfig {
+  timeout: number;
+  retry: NonNullable<UseFetchOptions['retry']>;
+  interceptors: FetchInterceptors;
+  responseType: FetchResponseType;
+  transport: 'fetch' | 'xhr';
+  onUploadProgress?: (progress: FetchProgress) => void;
+  onDownloadProgress?: (progress: FetchProgress) => void;
+  stream?: FetchStreamMode;
+  onChunk?: (chunk: any, accumulated: any) => void;
+  accumulate?: (accumulated: any, chunk: any) => any;
+  /** Called with the attempt number right before each retry */
+  onRetry?: (attempt: number) => void;
+}
+
+const DEFAULT_RETRY: RequestConfig['retry'] = { attempts: 0, delay: 1000, retryOn: [429, 500, 502, 503, 504] };
+
+// Focus and visibility events closer together than this trigger a single revalidation
+const FOCUS_THROTTLE = 1000;
+
+// Data loaded by suspending is not refetched by the mount request for at least this long
+const SUSPENSE_STALE_TIME = 1000;
+
+// Shared in-memory cache, keyed by customCache.key
+const cache = new Map<string, CacheEntry>();
+// Persistent storage of each cache key, registered by the hooks and requests using it
+const cacheStorages = new Map<string, FetchCacheStorage>();
+// Keys already looked up in their persistent storage, and the lookups still pending
+const hydratedKeys = new Set<string>();
+const hydrating = new Map<string, Promise<CacheEntry | undefined>>();
+// Mounted hooks listening for changes to a cache key
+const cacheListeners = new Map<string, Set<CacheListener>>();
+// Requests of suspended components, by cache key; failed ones keep their error until it is thrown
+const suspenseRequests = new Map<string, { promise: Promise<void>; error?: Error }>();
+// Requests currently in flight, used to deduplicate identical requests
+const inflight = new Map<string, InflightRequest>();
+
+const isFresh = (entry: CacheEntry): boolean => Date.now() - entry.timestamp < entry.ttl;
+
+const notifyCache = (key: string, event: CacheEvent = 'update') => {
+  cacheListeners.get(key)?.forEach((listener) => listener(event));
+};
+
+// Storage failures (quota, private mode, closed database) never break the memory cache
+const runStorage = (action: () => void | Promise<void>) => {
+  try {
+    Promise.resolve(action()).catch(() => undefined);
+  } catch {
+    // Storage unavailable
+  }
+};
+
+// Mirror the memory entry of a key into its persistent storage
+const persistCache = (key: string) => {
+  const storage = cacheStorages.get(key);
+  if (!storage) return;
+
+  const entry = cache.get(key);
+  runStorage(() => (entry ? storage.set(key, entry) : storage.remove(key)));
+};
+
+// The cache is module state, shared by every request a server renders: it is only written in the browser
+const isServer = () => typeof window === 'undefined';
+
+const writeCache = (key: string, data: any, ttl: number) => {
+  if (isServer()) return;
+  cache.set(key, { data, timestamp: Date.now(), ttl });
+  notifyCache(key);
+  persistCache(key);
+};
+
+/**
+ * Read a cache entry, hydrating it from its persistent storage when it is not in memory.
+ * Returns a promise only while an asynchronous storage is being read; hooks using
+ * the key are notified once the entry is hydrated.
+ */
+const readCache = (
+  key: string,
+  storage?: FetchCacheStorage
+): CacheEntry | undefined | Promise<CacheEntry | undefined> => {
+  if (storage) {
+    cacheStorages.set(key, storage);
+  }
+  const entry = cache.get(key);
+  if (entry || !storage) return entry;
+  if (hydrating.has(key)) return hydrating.get(key);
+  if (hydratedKeys.has(key)) return undefined;
+  hydratedKeys.add(key);
+
+  const hydrate = (record: CacheEntry | undefined) => {
+    if (record && !cache.has(key)) {
+      cache.set(key, record);
+      notifyCache(key);
+    }
+    return cache.get(key);
+  };
+
+  try {
+    const record = storage.get(key);
+    if (!(record instanceof Promise)) {
+      return hydrate(record);
+    }
+
+    const pending = record
+      .catch(() => undefined)
+      .then((value) => {
+        hydrating.delete(key);
+        return hydrate(value);
+      });
+    hydrating.set(key, pending);
+    return pending;
+  } catch {
+    return undefined;
+  }
+};
+
+// Read a cache entry without waiting for asynchronous storages
+const peekCache = (key: string, storage?: FetchCacheStorage): CacheEntry | undefined => {
+  const entry = readCache(key, storage);
+  return entry instanceof Promise ? undefined : entry;
+};
+
+/** Snapshot a cache entry so it can later be restored with restoreCacheEntry */
+export const getCacheEntry = (key: string): CacheEntry | undefined => {
+  const entry = cache.get(key);
+  return entry && { ...entry };
+};
+
+/** Put back a snapshot taken with getCacheEntry, removing the entry if there was none */
+export const restoreCacheEntry = (key: string, entry: CacheEntry | undefined) => {
+  if (entry) {
+    cache.set(key, entry);
+    notifyCache(key);
+  } else {
+    cache.delete(key);
+    notifyCache(key, 'clear');
+  }
+  persistCache(key);
+};
+
+const subscribeCache = (key: string, listener: CacheListener) => {
+  let listeners = cacheListeners.get(key);
+  if (!listeners) {
+    listeners = new Set();
+    cacheListeners.set(key, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners!.delete(listener);
+    if (listeners!.size === 0) {
+      cacheListeners.delete(key);
+    }
+  };
+};
+
+const createAbortError = (): Error => {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (err: unknown): boolean => err instanceof Error && err.name === 'AbortError';
+
+// Wait for the given delay, rejecting early if the signal aborts
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Settle with the promise, or reject as soon as the signal aborts
+const raceAbort = <R>(promise: Promise<R>, signal: AbortSignal) =>
+  new Promise<R>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+// Statuses that never carry a body
+const NO_CONTENT_STATUSES = [204, 205, 304];
+
+const parseJson = async (response: Response): Promise<any> => {
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+};
+
+const parseResponse = async (
+  response: Response,
+  responseType: FetchResponseType,
+  method?: string
+): Promise<any> => {
+  if (method === 'HEAD' || NO_CONTENT_STATUSES.includes(response.status)) {
+    return null;
+  }
+
+  switch (responseType) {
+    case 'json':
+      return parseJson(response);
+    case 'text':
+      return response.text();
+    case 'blob':
+      return response.blob();
+    case 'arrayBuffer':
+      return response.arrayBuffer();
+    case 'formData':
+      return response.formData();
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+
+  if (/ndjson|jsonl/.test(contentType)) {
+    const text = await response.text();
+    return text
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  }
+  // Also matches application/problem+json and other +json types
+  if (contentType.includes('json')) {
+    return parseJson(response);
+  }
+  if (contentType.includes('text/') || contentType.includes('xml')) {
+    return response.text();
+  }
+  if (contentType.includes('multipart/form-data')) {
+    return response.formData();
+  }
+  if (response.headers.get('content-length') === '0') {
+    return null;
+  }
+  return response.blob();
+};
+
+const createProgress = (loaded: number, total: number | null): FetchProgress => ({
+  loaded,
+  total,
+  percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : null,
+});
+
+const parseXhrHeaders = (rawHeaders: string): Headers => {
+  const headers = new Headers();
+  rawHeaders
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+      }
+    });
+  return headers;
+};
+
+// Send the request with XMLHttpRequest, which unlike fetch reports upload progress
+const xhrRequest = (
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal,
+  config: RequestConfig
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open(init.method || 'GET', url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+    new Headers(init.headers).forEach((value, name) => xhr.setRequestHeader(name, value));
+
+    if (config.onUploadProgress) {
+      xhr.upload.onprogress = (event) =>
+        config.onUploadProgress!(createProgress(event.loaded, event.lengthComputable ? event.total : null));
+    }
+    if (config.onDownloadProgress) {
+      xhr.onprogress = (event) =>
+        config.onDownloadProgress!(createProgress(event.loaded, event.lengthComputable ? event.total : null));
+    }
+
+    xhr.onload = () => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(
+        new Response(NO_CONTENT_STATUSES.includes(xhr.status) ? null : xhr.response, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    };
+    xhr.onerror = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(createAbortError());
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    xhr.send((init.body as XMLHttpRequestBodyInit | null | undefined) ?? null);
+  });
+
+// Read the response body chunk by chunk to report download progress
+const trackDownload = async (
+  response: Response,
+  onProgress: (progress: FetchProgress) => void
+): Promise<Response> => {
+  if (!response.body) return response;
+
+  const total = Number(response.headers.get('content-length')) || null;
+  const reader = response.body.getReader();
+  const chunks: BlobPart[] = [];
+  let loaded = 0;
+
+  onProgress(createProgress(0, total));
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress(createProgress(loaded, total));
+  }
+
+  return new Response(new Blob(chunks), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
+
+const DEFAULT_ACCUMULATORS: Record<FetchStreamMode, (accumulated: any, chunk: any) => any> = {
+  text: (accumulated = '', chunk: string) => accumulated + chunk,
+  ndjson: (accumulated = [], chunk: any) => [...accumulated, chunk],
+  sse: (accumulated = [], chunk: FetchStreamEvent) => [...accumulated, chunk],
+};
+
+// Parse one `text/event-stream` message; messages without data are not dispatched
+const parseServerSentEvent = (message: string): FetchStreamEvent | null => {
+  const event: FetchStreamEvent = { event: 'message', data: '' };
+  const data: string[] = [];
+
+  message.split(/\r?\n/).forEach((line) => {
+    if (!line || line.startsWith(':')) return;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'event') event.event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id') event.id = value;
+    else if (field === 'retry' && !isNaN(Number(value))) event.retry = Number(value);
+  });
+
+  if (data.length === 0) return null;
+  event.data = data.join('\n');
+  return event;
+};
+
+// Read a streamed body, emitting chunks as they arrive, and resolve with the accumulated value
+const readStream = async (
+  response: Response,
+  config: RequestConfig,
+  onActivity: () => void
+): Promise<any> => {
+  const mode = config.stream!;
+  const accumulate = config.accumulate || DEFAULT_ACCUMULATORS[mode];
+  const total = Number(response.headers.get('content-length')) || null;
+
+  let accumulated: any;
+  const emit = (chunk: any) => {
+    accumulated = accumulate(accumulated, chunk);
+    config.onChunk?.(chunk, accumulated);
+  };
+
+  // Emit every complete line (NDJSON) or message (SSE) from the buffer and return the rest
+  const flush = (buffer: string, final: boolean): string => {
+    const parts = buffer.split(mode === 'ndjson' ? /\r?\n/ : /\r?\n\r?\n/);
+    const rest = final ? '' : parts.pop()!;
+    parts.forEach((part) => {
+      if (mode === 'ndjson') {
+        if (part.trim()) emit(JSON.parse(part));
+      } else {
+        const event = parseServerSentEvent(part);
+        if (event) emit(event);
+      }
+    });
+    return rest;
+  };
+
+  if (response.body) {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let loaded = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onActivity();
+
+      loaded += value.length;
+      config.onDownloadProgress?.(createProgress(loaded, total));
+
+      const text = decoder.decode(value, { stream: true });
+      if (mode === 'text') {
+        if (text) emit(text);
+      } else {
+        buffer = flush(buffer + text, false);
+      }
+    }
+
+    const remaining = buffer + decoder.decode();
+    if (mode === 'text') {
+      if (remaining) emit(remaining);
+    } else {
+      flush(remaining, true);
+    }
+  }
+
+  // An empty stream resolves with an empty string or array
+  return accumulated === undefined ? (mode === 'text' ? '' : []) : accumulated;
+};
+
+/** Parse the Retry-After header of a response, given either in seconds or as an HTTP date */
+export const parseRetryAfter = (response: Response): number | null => {
+  const value = response.headers.get('retry-after');
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Compute how long to wait before retrying the given attempt
+const getRetryDelay = (
+  retry: RequestConfig['retry'],
+  attemptNumber: number,
+  response: Response | null
+): number => {
+  const {
+    delay = 1000,
+    backoff = 'fixed',
+    factor = 2,
+    maxDelay = 30000,
+    jitter = false,
+    respectRetryAfter = true,
+  } = retry;
+
+  if (respectRetryAfter && response && (response.status === 429 || response.status === 503)) {
+    const retryAfter = parseRetryAfter(response);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, maxDelay);
+    }
+  }
+
+  const nextDelay = Math.min(
+    backoff === 'exponential' ? delay * Math.pow(factor, attemptNumber) : delay,
+    maxDelay
+  );
+  return jitter ? Math.random() * nextDelay : nextDelay;
+};
+
+// Run the response interceptors and fail the attempt on a non-2xx status
+const finishAttempt = async (
+  context: FetchResponseContext,
+  interceptors: FetchInterceptors,
+  attempts: number
+): Promise<RequestResult> => {
+  let result = context;
+  for (const intercept of interceptors.response || []) {
+    result = await intercept(result);
+  }
+
+  if (!result.response.ok) {
+    throw new HttpError(result.response, result.data, result.url, attempts);
+  }
+
+  return { data: result.data, response: result.response };
+};
+
+// Perform a single attempt of the request
+const attemptRequest = async (
+  url: string,
+  init: RequestInit,
+  config: RequestConfig,
+  signal: AbortSignal,
+  attemptNumber: number
+): Promise<RequestResult> => {
+  const { timeout, interceptors, responseType } = config;
+  const attempts = attemptNumber + 1;
+
+  let request: FetchRequestContext = { url, init };
+  for (const intercept of interceptors.request || []) {
+    request = await intercept(request);
+  }
+
+  if (signal.aborted) {
+    throw createAbortError();
+  }
+
+  // Each attempt gets its own controller so a timeout can be told apart from an abort
+  const attemptController = new AbortController();
+  const abortAttempt = () => attemptController.abort();
+  signal.addEventListener('abort', abortAttempt, { once: true });
+  // Response interceptors get the attempt signal, so requests they make are cancelled with it
+  const attemptInit = { ...request.init, signal: attemptController.signal };
+
+  // The timeout is restarted for every streamed chunk, making it an idle timeout
+  let timedOut = false;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const restartTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => {
+      timedOut = true;
+      attemptController.abort();
+    }, timeout);
+  };
+
+  try {
+    let response: Response;
+    restartTimeout();
+
+    try {
+      response =
+        config.transport === 'xhr'
+          ? await xhrRequest(request.url, request.init, attemptController.signal, config)
+          : await fetch(request.url, attemptInit);
+    } catch (err) {
+      if (timedOut) {
+        throw new TimeoutError(timeout, request.url, attempts);
+      }
+      if (isAbortError(err)) {
+        throw err;
+      }
+      throw new NetworkError(err, request.url, attempts);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (config.stream && response.ok) {
+      let streamed: any;
+      try {
+        restartTimeout();
+        streamed = await readStream(response, config, restartTimeout);
+      } catch (err) {
+        if (timedOut) {
+          throw new TimeoutError(timeout, request.url, attempts);
+        }
+        throw err;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+      return await finishAttempt(
+        { ...request, init: attemptInit, response, data: streamed },
+        interceptors,
+        attempts
+      );
+    }
+
+    if (config.transport === 'fetch' && config.onDownloadProgress) {
+      response = await trackDownload(response, config.onDownloadProgress);
+    }
+
+    // Error bodies are parsed too so interceptors and HttpError can expose them
+    let data: any = null;
+    try {
+      data = await parseResponse(response, responseType, request.init.method);
+    } catch (err) {
+      if (response.ok || isAbortError(err)) {
+        throw err;
+      }
+    }
+
+    return await finishAttempt({ ...request, init: attemptInit, response, data }, interceptors, attempts);
+  } finally {
+    signal.removeEventListener('abort', abortAttempt);
+  }
+};
+
+// Perform the request, retrying according to the retry configuration
+const runRequest = async (
+  url: string,
+  init: RequestInit,
+  config: RequestConfig,
+  controller: AbortController
+): Promise<RequestResult> => {
+  const { retry, onRetry } = config;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    try {
+      return await attemptRequest(url, init, config, controller.signal, attemptNumber);
+    } catch (err) {
+      // Aborts and errors thrown by interceptors are never retried
+      const retryable =
+        err instanceof HttpError || err instanceof NetworkError || err instanceof TimeoutError;
+      const response = err instanceof HttpError ? err.response : null;
+      const canRetry =
+        retryable &&
+        attemptNumber < (retry.attempts || 0) &&
+        (retry.shouldRetry
+          ? retry.shouldRetry(err, response, attemptNumber)
+          : !response || !!retry.retryOn?.includes(response.status));
+
+      if (!canRetry) {
+        throw err;
+      }
+
+      await sleep(getRetryDelay(retry, attemptNumber, response), controller.signal);
+      onRetry?.(attemptNumber + 1);
+    }
+  }
+};
+
+/**
+ * Join the in-flight request for the given key, or start a new one.
+ * The underlying request is only aborted once every caller has released it.
+ */
+const acquireRequest = (
+  requestKey: string | null,
+  start: (controller: AbortController) => Promise<RequestResult>
+) => {
+  let entry = requestKey ? inflight.get(requestKey) : undefined;
+  const joined = !!entry;
+
+  if (!entry) {
+    const controller = new AbortController();
+    const created = { controller, refs: 0 } as InflightRequest;
+    created.promise = start(controller).finally(() => {
+      if (requestKey && inflight.get(requestKey) === created) {
+        inflight.delete(requestKey);
+      }
+    });
+    // Callers handle rejections themselves; this only silences the shared promise
+    created.promise.catch(() => undefined);
+    if (requestKey) {
+      inflight.set(requestKey, created);
+    }
+    entry = created;
+  }
+
+  const shared = entry;
+  shared.refs += 1;
+  let released = false;
+
+  return {
+    promise: shared.promise,
+    joined,
+    release: () => {
+      if (released) return;
+      released = true;
+      shared.refs -= 1;
+      if (shared.refs <= 0) {
+        // Forget it right away so a request started before it settles does not join it
+        if (requestKey && inflight.get(requestKey) === shared) {
+          inflight.delete(requestKey);
+        }
+        shared.controller.abort();
+      }
+    },
+  };
+};
+
+const appendQuery = (url: string, query?: FetchQuery): string => {
+  if (!query) return url;
+
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === null || value === undefined) return;
+    (Array.isArray(value) ? value : [value]).forEach((item) => params.append(key, String(item)));
+  });
+
+  const search = params.toString();
+  if (!search) return url;
+
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  return `${base}${base.includes('?') ? '&' : '?'}${search}${hash}`;
+};
+
+const isJsonBody = (body: unknown): boolean =>
+  Array.isArray(body) ||
+  Object.prototype.toString.call(body) === '[object Object]' ||
+  typeof body === 'number' ||
+  typeof body === 'boolean';
+
+/**
+ * Serialize plain values to JSON and leave every other body type to fetch, which
+ * sets the right content type itself (including the multipart boundary of FormData).
+ * Strings keep the JSON content type for callers that pre-stringify their body.
+ */
+const serializeBody = (body: any, headers: Record<string, string>): BodyInit => {
+  const needsJsonType = isJsonBody(body) || typeof body === 'string';
+  if (needsJsonType && !headers['content-type']) {
+    headers['content-type'] = 'application/json';
+  }
+  return isJsonBody(body) ? JSON.stringify(body) : body;
+};
+
+// Resolve the URL and fetch options described by the options
+const buildRequest = (url: string, options: UseFetchOptions): FetchRequestContext => {
+  const { method = 'GET', body, query, fetchOptions = {} } = options;
+
+  // Header names are normalized to lower case so the content type can be detected
+  const headers: Record<string, string> = {};
+  new Headers(fetchOptions.headers).forEach((value, name) => {
+    headers[name] = value;
+  });
+
+  const init: RequestInit = { ...fetchOptions, method, headers };
+  if (body !== undefined && body !== null) {
+    init.body = serializeBody(body, headers);
+  }
+  return { url: appendQuery(url, query), init };
+};
+
+// Build the request described by the options and join or start it
+const startRequest = (
+  url: string,
+  options: UseFetchOptions,
+  callbacks: Pick<RequestConfig, 'onRetry'> = {}
+) => {
+  const {
+    method = 'GET',
+    retry,
+    timeout = 10000,
+    interceptors = {},
+    responseType = 'auto',
+    onUploadProgress,
+    onDownloadProgress,
+    transport = onUploadProgress ? 'xhr' : 'fetch',
+    stream,
+    onChunk,
+    accumulate,
+  } = options;
+
+  const { url: requestUrl, init: requestOptions } = buildRequest(url, options);
+  const hasBody = requestOptions.body !== undefined;
+
+  // Only side-effect free requests are shared between callers, and streams have a single reader
+  const canDedupe = !hasBody && !stream && (method === 'GET' || method === 'HEAD');
+
+  // Keyed by the request itself: hooks sharing a cache key may still request different URLs
+  return acquireRequest(
+    canDedupe ? `${method} ${requestUrl}` : null,
+    (controller) =>
+      runRequest(
+        requestUrl,
+        requestOptions,
+        {
+          timeout,
+          retry: { ...DEFAULT_RETRY, ...retry },
+          interceptors,
+          responseType,
+          transport,
+          onUploadProgress,
+          onDownloadProgress,
+          stream,
+          onChunk,
+          accumulate,
+          ...callbacks,
+        },
+        controller
+      )
+  );
+};
+
+// Suspend until the cache entry is loaded, or throw the error the load failed with
+const suspend = (key: string, load: () => Promise<unknown>): never => {
+  let request = suspenseRequests.get(key);
+  if (!request) {
+    const pending: { promise: Promise<void>; error?: Error } = {
+      promise: load().then(
+        () => {
+          suspenseRequests.delete(key);
+        },
+        (err) => {
+          pending.error = err instanceof Error ? err : new Error('Unknown error');
+        }
+      ),
+    };
+    request = pending;
+    suspenseRequests.set(key, request);
+  }
+
+  if (request.error) {
+    // Rendering again after the error boundary resets retries the request
+    suspenseRequests.delete(key);
+    throw request.error;
+  }
+  throw request.promise;
+};
+
+// Resolve a conditional URL; a throwing function means a dependency is not ready yet
+const resolveUrl = (url: FetchUrl): string | null => {
+  if (typeof url !== 'function') return url;
+  try {
+    return url();
+  } catch {
+    return null;
+  }
+};
+
+const randomHex = (bytes: number): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+
+// W3C Trace Context header of a sampled request with a new trace and span
+const createTraceparent = () => `00-${randomHex(16)}-${randomHex(8)}-01`;
+
+// Size of the response body from its Content-Length, or from the Resource Timing entry of the request
+const getResponseBytes = (response: Response): number | null => {
+  const length = response.headers.get('content-length');
+  if (length !== null) return Number(length);
+  if (!response.url || typeof performance === 'undefined' || !performance.getEntriesByName) {
+    return null;
+  }
+
+  const entries = performance.getEntriesByName(response.url, 'resource') as PerformanceResourceTiming[];
+  return entries[entries.length - 1]?.encodedBodySize || null;
+};
+
+/** Per-call controls for fetchData */
+interface FetchDataControl extends Pick<RequestConfig, 'onRetry'> {
+  /** Refetch even when the cache entry is still fresh */
+  revalidate?: boolean;
+  /** Cache read and written instead of the shared one, e.g. a request-scoped server cache */
+  store?: Map<string, CacheEntry>;
+}
+
+/**
+ * Fetch a URL through the shared cache: fresh entries under `customCache.key` are returned
+ * directly, otherwise the request is made (or joined), transformed and cached.
+ * Aborting the signal releases this caller's share of the request.
+ */
+export const fetchData = async <T = any>(
+  url: string,
+  options: UseFetchOptions<T>,
+  signal?: AbortSignal,
+  control: FetchDataControl = {}
+): Promise<{ data: T; response: Response | null }> => {
+  const {
+    transform,
+    validate,
+    customCache,
+    method = 'GET',
+    onRequestStart,
+    onRequestEnd,
+    trace,
+  } = options;
+  const key = customCache?.key;
+
+  const start: FetchRequestStart = { url: appendQuery(url, options.query), method, startTime: Date.now() };
+  const traceHeader = trace === true ? {} : trace;
+  const traceValue = traceHeader ? (traceHeader.generate || createTraceparent)() : undefined;
+  if (traceHeader && traceValue) {
+    options = {
+      ...options,
+      fetchOptions: {
+        ...options.fetchOptions,
+        headers: {
+          ...options.fetchOptions?.headers,
+          [traceHeader.header || 'traceparent']: traceValue,
+        },
+      },
+    };
+  }
+
+  const report = (metrics: Omit<FetchRequestMetrics, keyof FetchRequestStart | 'duration'>) => {
+    onRequestEnd?.({ ...start, duration: Date.now() - start.startTime, ...metrics });
   };
+
+  const { store } = control;
+  let cached: CacheEntry | undefined;
+  if (key) {
+    cached = store ? store.get(key) : await readCache(key, customCache?.storage);
+  }
+  if (cached && isFresh(cached) && !control.revalidate) {
+    onRequestStart?.(start);
+    report({ status: null, attempts: 0, cacheHit: true, deduped: false, bytes: null, error: null });
+    return { data: cached.data, response: null };
+  }
+
+  let retries = 0;
+  const shared = startRequest(url, options, {
+    onRetry: (attempt) => {
+      retries = attempt;
+      control.onRetry?.(attempt);
+    },
+  });
+  const release = () => shared.release();
+  signal?.addEventListener('abort', release, { once: true });
+
+  // A joined request was sent with the trace header of the caller that started it
+  if (traceValue && !shared.joined) {
+    start.trace = traceValue;
+  }
+  onRequestStart?.(start);
+
+  try {
+    const result = await (signal ? raceAbort(shared.promise, signal) : shared.promise);
+
+    // Transform data if transformer provided, then check it against the schema
+    const transformed = transform ? transform(result.data) : result.data;
+    const finalData = validate ? validate.parse(transformed) : transformed;
+
+    if (key) {
+      if (store) {
+        store.set(key, { data: finalData, timestamp: Date.now(), ttl: customCache?.ttl ?? 0 });
+      } else {
+        writeCache(key, finalData, customCache?.ttl ?? 0);
+      }
+    }
+    report({
+      status: result.response.status,
+      attempts: shared.joined ? 0 : retries + 1,
+      cacheHit: false,
+      deduped: shared.joined,
+      bytes: shared.joined ? null : getResponseBytes(result.response),
+      error: null,
+    });
+    return { data: finalData, response: result.response };
+  } catch (err) {
+    const failure = err instanceof Error ? err : new Error('Unknown error');
+    report({
+      status: err instanceof HttpError ? err.status : null,
+      attempts: shared.joined
+        ? 0
+        : err instanceof HttpError || err instanceof TimeoutError || err instanceof NetworkError
+          ? err.attempts
+          : retries + 1,
+      cacheHit: false,
+      deduped: shared.joined,
+      bytes: err instanceof HttpError && !shared.joined ? getResponseBytes(err.response) : null,
+      error: failure,
+    });
+    throw err;
+  } finally {
+    signal?.removeEventListener('abort', release);
+  }
+};
+
+/**
+ * Serialized cache entries produced by `fetchCache.dehydrate`
+ */
+export interface FetchDehydratedState {
+  entries: Record<string, FetchCacheRecord>;
+}
+
+/**
+ * Imperative controller for the shared useFetch cache.
+ * Keys are the same ones passed as `customCache.key` to useFetch.
+ */
+export interface FetchCache {
   /**
-   * Custom cache configuration (separate from browser cache)
+   * Update a cache entry and re-render every hook using that key
+   * @returns The new cached value
    */
-  customCache?: {
-    /** Cache key for storing response */
-    key?: string;
-    /** Cache duration in milliseconds */
-    ttl?: number;
-  };
+  mutate: <T = any>(key: string, updater: T | ((current: T | undefined) => T)) => T;
+  /** Mark matching entries as stale and make mounted hooks using them refetch */
+  invalidate: (keyOrPredicate: string | ((key: string) => boolean)) => void;
   /**
-   * Request timeout in milliseconds
-   * @default 10000
+   * Fetch a URL ahead of time and store the result under `options.customCache.key`.
+   * Nothing is cached on the server: prefetch into a `createFetchCache()` cache there.
+   * @returns The fetched (or still fresh cached) data, or null if the request failed
    */
-  timeout?: number;
+  prefetch: <T = any>(url: string, options?: UseFetchOptions<T>) => Promise<T | null>;
   /**
-   * Dependencies that trigger a refetch when changed
+   * Serialize the cache entries to pass them to `hydrate`.
+   * Cached data must be JSON-compatible to be sent along.
    */
-  deps?: any[];
+  dehydrate: (filter?: (key: string) => boolean) => FetchDehydratedState;
+  /** Load entries produced by `dehydrate`, keeping in-memory entries that are more recent */
+  hydrate: (state: FetchDehydratedState) => void;
+  /** Remove every cache entry, including persisted ones, and clear the data of hooks using them */
+  clear: () => void;
   /**
-   * Additional fetch options (headers, credentials, etc.)
+   * Load every entry persisted in a storage into memory, e.g. on startup before the first render.
+   * Entries already in memory are kept.
    */
-  fetchOptions?: Omit<RequestInit, 'method' | 'body'>;
+  restore: (storage: FetchCacheStorage) => Promise<void>;
 }
 
+// Serialize the entries of a cache accepted by the filter
+const dehydrateEntries = (
+  source: Map<string, CacheEntry>,
+  filter?: (key: string) => boolean
+): FetchDehydratedState => {
+  const entries: Record<string, FetchCacheRecord> = {};
+  source.forEach(({ data, timestamp, ttl }, key) => {
+    if (!filter || filter(key)) {
+      entries[key] = { data, timestamp, ttl };
+    }
+  });
+  return { entries };
+};
+
 /**
- * Return values from the useFetch hook
+ * Shared cache controller for useFetch
+ *
+ * @example
+ * ```tsx
+ * import { fetchCache, createFetchCache } from 'light-hooks';
+ *
+ * // Optimistically append a todo, then refetch the list
+ * fetchCache.mutate<Todo[]>('todos', (todos = []) => [...todos, newTodo]);
+ * await createTodo({ body: JSON.stringify(newTodo) });
+ * fetchCache.invalidate('todos');
+ *
+ * // Invalidate every user entry
+ * fetchCache.invalidate((key) => key.startsWith('user-'));
+ *
+ * // Warm the cache before navigating
+ * fetchCache.prefetch('/api/settings', { customCache: { key: 'settings', ttl: 60000 } });
+ *
+ * // Hydrate persisted entries on startup
+ * await fetchCache.restore(storage);
+ *
+ * // Send data fetched on the server along with the page, through a cache of its own
+ * const requestCache = createFetchCache();
+ * await requestCache.prefetch('/api/posts', { customCache: { key: 'posts', ttl: 30000 } });
+ * const props = { fetchState: requestCache.dehydrate() };
+ *
+ * // ...and load them on the client before rendering
+ * fetchCache.hydrate(props.fetchState);
+ * ```
  */
-export interface UseFetchReturn<T> {
-  /** The response data */
-  data: T | null;
-  /** Loading state */
-  loading: boolean;
-  /** Error object if request failed */
-  error: Error | null;
-  /** HTTP response object */
-  response: Response | null;
-  /** Function to manually trigger the request */
-  execute: (overrideOptions?: Partial<UseFetchOptions<T>>) => Promise<T | null>;
-  /** Function to abort the current request */
-  abort: () => void;
-  /** Function to reset the state */
-  reset: () => void;
-  /** Whether the request was aborted */
-  aborted: boolean;
-}
+export const fetchCache: FetchCache = {
+  mutate: <T = any>(key: string, updater: T | ((current: T | undefined) => T)): T => {
+    const entry = cache.get(key);
+    const data =
+      typeof updater === 'function'
+        ? (updater as (current: T | undefined) => T)(entry?.data)
+        : updater;
+    writeCache(key, data, entry?.ttl ?? 0);
+    return data;
+  },
+
+  invalidate: (keyOrPredicate) => {
+    const matches =
+      typeof keyOrPredicate === 'function' ? keyOrPredicate : (key: string) => key === keyOrPredicate;
+    const keys = new Set([...cache.keys(), ...cacheListeners.keys()]);
+
+    keys.forEach((key) => {
+      if (!matches(key)) return;
+      const entry = cache.get(key);
+      if (entry) {
+        entry.timestamp = 0;
+        persistCache(key);
+      }
+      notifyCache(key, 'invalidate');
+    });
+  },
+
+  prefetch: async <T = any>(url: string, options: UseFetchOptions<T> = {}): Promise<T | null> => {
+    try {
+      const result = await fetchData(url, options);
+      return result.data;
+    } catch {
+      return null;
+    }
+  },
+
+  dehydrate: (filter) => dehydrateEntries(cache, filter),
+
+  hydrate: (state) => {
+    if (isServer()) return;
+    Object.entries(state.entries).forEach(([key, record]) => {
+      const entry = cache.get(key);
+      if (entry && entry.timestamp >= record.timestamp) return;
+      cache.set(key, { ...record });
+      notifyCache(key);
+      persistCache(key);
+    });
+  },
+
+  clear: () => {
+    const keys = [...cacheListeners.keys()];
+    cache.clear();
+    hydratedKeys.clear();
+    new Set(cacheStorages.values()).forEach((storage) => runStorage(() => storage.clear()));
+    keys.forEach((key) => notifyCache(key, 'clear'));
+  },
+
+  restore: async (storage) => {
+    const entries = await storage.entries();
+    entries.forEach(([key, record]) => {
+      cacheStorages.set(key, storage);
+      hydratedKeys.add(key);
+      if (cache.has(key)) return;
+      cache.set(key, record);
+      notifyCache(key);
+    });
+  },
+};
+
+/**
+ * A cache scoped to a single server request, filled with `prefetch` and serialized with `dehydrate`
+ */
+export type RequestFetchCache = Pick<FetchCache, 'prefetch' | 'dehydrate'>;
+
+/**
+ * Create a cache for a single server request. The shared cache is not written on the server,
+ * where it would mix the data of every user; prefetch into this one and pass its
+ * dehydrated state to `fetchCache.hydrate` on the client instead.
+ *
+ * @example
+ * ```tsx
+ * import { createFetchCache } from 'light-hooks';
+ *
+ * export async function getServerSideProps() {
+ *   const requestCache = createFetchCache();
+ *   await requestCache.prefetch('/api/posts', { customCache: { key: 'posts', ttl: 30000 } });
+ *   return { props: { fetchState: requestCache.dehydrate() } };
+ * }
+ * ```
+ */
+export const createFetchCache = (): RequestFetchCache => {
+  const store = new Map<string, CacheEntry>();
+
+  return {
+    prefetch: async <T = any>(url: string, options: UseFetchOptions<T> = {}): Promise<T | null> => {
+      try {
+        const result = await fetchData(url, options, undefined, { store });
+        return result.data;
+      } catch {
+        return null;
+      }
+    },
 
-// Simple in-memory cache
-const cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
+    dehydrate: (filter) => dehydrateEntries(store, filter),
+  };
+};
 
 /**
  * A comprehensive React hook for data fetching with advanced features
- * 
+ *
  * This hook provides a complete solution for HTTP requests with loading states,
  * error handling, retries, caching, and request cancellation.
- * 
- * @param url - The URL to fetch from
+ *
+ * Responses stored under a `customCache.key` are shared by every `useFetch` using
+ * that key: identical in-flight GET requests are deduplicated, stale entries are
+ * served immediately while being revalidated in the background, and all mounted
+ * hooks re-render when one of them refreshes the entry.
+ *
+ * @param url - The URL to fetch from, or null (or a function returning null) to wait
  * @param options - Configuration options for the request
  * @returns Object containing data, loading state, and control functions
- * 
+ *
  * @example
  * ```tsx
  * import { useFetch } from 'light-hooks';
- * 
+ *
  * function UserProfile({ userId }: { userId: string }) {
- *   const { data: user, loading, error, execute } = useFetch<User>(
+ *   const { data: user, loading, isValidating, error, execute } = useFetch<User>(
  *     `https://api.example.com/users/${userId}`,
  *     {
  *       immediate: true,
- *       cache: { key: `user-${userId}`, ttl: 300000 }, // 5 minutes
- *       retry: { attempts: 3, delay: 1000 }
+ *       customCache: { key: `user-${userId}`, ttl: 300000 }, // 5 minutes
+ *       retry: { attempts: 3, delay: 1000, backoff: 'exponential', jitter: true }
  *     }
  *   );
- * 
+ *
  *   if (loading) return <div>Loading...</div>;
  *   if (error) return <div>Error: {error.message}</div>;
  *   if (!user) return <div>No user found</div>;
- * 
+ *
  *   return (
  *     <div>
  *       <h1>{user.name}</h1>
+ *       {isValidating && <small>Refreshing...</small>}
  *       <button onClick={() => execute()}>Refresh</button>
  *     </div>
  *   );
  * }
  * ```
- * 
+ *
  * @example
  * ```tsx
- * // POST request with body
+ * // POST request with body, serialized to JSON automatically
  * const { execute: createUser, loading } = useFetch<User>(
  *   'https://api.example.com/users',
  *   {
  *     method: 'POST',
- *     immediate: false,
- *     headers: { 'Content-Type': 'application/json' }
+ *     immediate: false
  *   }
  * );
- * 
+ *
  * const handleSubmit = async (userData: CreateUserData) => {
- *   await createUser({ body: JSON.stringify(userData) });
+ *   await createUser({ body: userData });
+ * };
+ *
+ * // FormData uploads keep their multipart boundary
+ * const uploadAvatar = (file: File) => {
+ *   const form = new FormData();
+ *   form.append('avatar', file);
+ *   return createUser({ body: form });
  * };
  * ```
- * 
+ *
+ * @example
+ * ```tsx
+ * // Exponential backoff with a custom retry predicate
+ * const { data, loading, attempt } = useFetch<Report>('https://api.example.com/report', {
+ *   retry: {
+ *     attempts: 5,
+ *     backoff: 'exponential',
+ *     maxDelay: 10000,
+ *     shouldRetry: (error, response) => !response || response.status >= 500,
+ *   },
+ * });
+ *
+ * if (loading && attempt > 0) return <div>Retrying ({attempt}/5)...</div>;
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Download a file and validate JSON responses at runtime
+ * const { data: file } = useFetch<ArrayBuffer>('/api/export', { responseType: 'arrayBuffer' });
+ * const { data: user } = useFetch('/api/me', { validate: UserSchema }); // e.g. a zod schema
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Dependent queries: wait for the user before loading their projects
+ * const { data: user } = useFetch<User>('/api/me');
+ * const { data: projects } = useFetch<Project[]>(() => `/api/users/${user!.id}/projects`);
+ *
+ * // Conditional query
+ * const { data: results } = useFetch(query ? '/api/search' : null, {
+ *   query: { q: query },
+ *   enabled: query.length > 2,
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Keep a dashboard fresh
+ * const { data: stats } = useFetch<Stats>('/api/stats', {
+ *   customCache: { key: 'stats', ttl: 30000 },
+ *   refetchOnWindowFocus: true, // only when older than staleTime (defaults to the ttl)
+ *   refetchOnReconnect: true,
+ *   refetchInterval: 60000,
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Upload a file with a progress bar
+ * const { execute: upload, progress, abort } = useFetch('/api/files', {
+ *   method: 'POST',
+ *   immediate: false,
+ *   transport: 'xhr', // fetch cannot report upload progress
+ * });
+ *
+ * <progress value={progress?.percent ?? 0} max={100} />
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Stream server-sent events, folding each token into the answer
+ * const { data: answer, abort } = useFetch<string>('/api/chat', {
+ *   method: 'POST',
+ *   body: { prompt },
+ *   stream: 'sse',
+ *   accumulate: (text = '', event) => text + JSON.parse(event.data).token,
+ *   timeout: 30000, // maximum silence between events
+ * });
+ * ```
+ *
  * @example
  * ```tsx
- * // With dependencies that trigger refetch
+ * // Render validation errors returned by the API
+ * const { error, execute } = useFetch('https://api.example.com/users', { method: 'POST', immediate: false });
+ *
+ * if (error instanceof HttpError && error.status === 422) {
+ *   return <FieldErrors errors={error.body.errors} />;
+ * }
+ * if (error instanceof TimeoutError) {
+ *   return <div>The server took too long to respond</div>;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Suspend until the data is loaded; errors go to the nearest error boundary
+ * function Profile() {
+ *   const { data: user } = useFetch<User>('/api/me', { suspense: true });
+ *   return <h1>{user!.name}</h1>;
+ * }
+ *
+ * <ErrorBoundary fallback={<Error />}>
+ *   <Suspense fallback={<Spinner />}>
+ *     <Profile />
+ *   </Suspense>
+ * </ErrorBoundary>
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Server-rendered data, refetched once it is older than a minute
+ * const { data: post } = useFetch<Post>(`/api/posts/${id}`, {
+ *   initialData: props.post,
+ *   staleTime: 60000
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // With dependencies that trigger refetch; slower earlier searches are cancelled
  * const { data, loading } = useFetch(
- *   `https://api.example.com/search?q=${query}`,
+ *   'https://api.example.com/search',
  *   {
+ *     query: { q: query, tags: ['react', 'hooks'] },
  *     deps: [query],
+ *     concurrency: 'cancel-previous',
  *     transform: (data) => data.results
  *   }
  * );
  * ```
  */
 export const useFetch = <T = any>(
-  url: string,
+  url: FetchUrl,
   options: UseFetchOptions<T> = {}
 ): UseFetchReturn<T> => {
+  const resolvedUrl = resolveUrl(url);
+
+  // Suspense reads data from the shared cache, so every suspending request needs a key
+  if (options.suspense && resolvedUrl && !options.customCache?.key) {
+    options = {
+      ...options,
+      customCache: {
+        ...options.customCache,
+        key: `${options.method ?? 'GET'} ${appendQuery(resolvedUrl, options.query)}`,
+      },
+    };
+  }
+
   const {
-    method = 'GET',
-    body,
     immediate = true,
-    transform,
-    retry = { attempts: 0, delay: 1000, retryOn: [500, 502, 503, 504] },
+    enabled = true,
     customCache: cacheConfig,
-    timeout = 10000,
     deps = [],
-    fetchOptions = {},
+    refetchOnWindowFocus = false,
+    refetchOnReconnect = false,
+    refetchInterval,
+    initialData,
+    initialDataUpdatedAt,
+    placeholderData,
+    suspense = false,
   } = options;
+  const cacheKey = cacheConfig?.key;
+
+  const updatedAtRef = useRef<number>();
+  const [data, setData] = useState<T | null>(() => {
+    const cached = cacheKey ? peekCache(cacheKey, cacheConfig?.storage) : undefined;
+    if (cached) {
+      if (suspense) {
+        updatedAtRef.current = cached.timestamp;
+      }
+      return cached.data;
+    }
+    if (initialData === undefined) return null;
 
-  const [data, setData] = useState<T | null>(null);
+    const value = typeof initialData === 'function' ? (initialData as () => T)() : initialData;
+    updatedAtRef.current = initialDataUpdatedAt ?? Date.now();
+    if (cacheKey && !isServer()) {
+      cache.set(cacheKey, { data: value, timestamp: updatedAtRef.current, ttl: cacheConfig?.ttl ?? 0 });
+    }
+    return value;
+  });
   const [loading, setLoading] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [response, setResponse] = useState<Response | null>(null);
   const [aborted, setAborted] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const [progress, setProgress] = useState<FetchProgress | null>(null);
+  const [queued, setQueued] = useState(false);
 
+  const fetchConfig = useFetchConfig();
   const abortControllerRef = useRef<AbortController>();
-  const retryTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
-
-  // Check cache
-  const getCachedData = useCallback((cacheKey: string) => {
-    if (!cacheConfig?.key) return null;
-    
-    const cached = cache.get(cacheKey);
-    if (!cached) return null;
-    
-    const isExpired = Date.now() - cached.timestamp > cached.ttl;
-    if (isExpired) {
-      cache.delete(cacheKey);
-      return null;
-    }
-    
-    return cached.data;
-  }, [cacheConfig?.key]);
-
-  // Set cache
-  const setCachedData = useCallback((cacheKey: string, data: any) => {
-    if (!cacheConfig?.key || !cacheConfig?.ttl) return;
-    
-    cache.set(cacheKey, {
-      data,
-      timestamp: Date.now(),
-      ttl: cacheConfig.ttl,
-    });
-  }, [cacheConfig?.key, cacheConfig?.ttl]);
+  const optionsRef = useRef(options);
+  const fetchConfigRef = useRef(fetchConfig);
+  const executedRef = useRef(false);
+  const isFirstRunRef = useRef(true);
+  const sequenceRef = useRef(0);
+  const appliedSequenceRef = useRef(0);
+  const pendingRef = useRef<Promise<T | null> | null>(null);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Keep the latest options without recreating execute on every render
+  useEffect(() => {
+    optionsRef.current = options;
+    fetchConfigRef.current = fetchConfig;
+  });
 
   // Abort current request
   const abort = useCallback(() => {
@@ -211,9 +1947,6 @@ export const useFetch = <T = any>(
       abortControllerRef.current.abort();
       setAborted(true);
     }
-    if (retryTimeoutRef.current) {
-      clearTimeout(retryTimeoutRef.current);
-    }
   }, []);
 
   // Reset state
@@ -222,157 +1955,316 @@ export const useFetch = <T = any>(
     setError(null);
     setResponse(null);
     setLoading(false);
+    setIsValidating(false);
     setAborted(false);
+    setAttempt(0);
+    setProgress(null);
+    setQueued(false);
   }, []);
 
-  // Execute request with retry logic
-  const executeWithRetry = useCallback(
-    async (requestOptions: RequestInit, attemptNumber = 0): Promise<T | null> => {
-      try {
-        const controller = new AbortController();
-        abortControllerRef.current = controller;
+  // Perform a single request, optionally refetching even when the cached entry is still fresh
+  const perform = useCallback(
+    async (
+      overrideOptions: Partial<UseFetchOptions<T>>,
+      revalidate: boolean
+    ): Promise<T | null> => {
+      // Requests are only made in the browser; server renders use initial and cached data
+      if (!resolvedUrl || typeof window === 'undefined') return null;
+      // Set even when the cache answers, so invalidation and focus refetches reach this hook
+      executedRef.current = true;
 
-        // Set up timeout
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
+      // Responses of requests started before the last applied one are ignored
+      const sequence = ++sequenceRef.current;
+      const isLatest = () => sequence === sequenceRef.current;
 
-        const response = await fetch(url, {
-          ...requestOptions,
-          signal: controller.signal,
-        });
+      const baseFetchOptions = optionsRef.current.fetchOptions || {};
+      const mergedOptions = { ...optionsRef.current, ...overrideOptions };
+      const {
+        customCache,
+        fetchOptions = {},
+        onUploadProgress,
+        onDownloadProgress,
+        transport = onUploadProgress ? 'xhr' : 'fetch',
+        onChunk,
+      } = mergedOptions;
+      const key = customCache?.key;
 
-        clearTimeout(timeoutId);
+      // Serve fresh entries directly and stale ones while revalidating
+      const cached = key ? peekCache(key, customCache?.storage) : undefined;
+      const serveStale = !!cached && (customCache?.staleWhileRevalidate ?? true);
+      if (cached && isFresh(cached) && !revalidate) {
+        appliedSequenceRef.current = sequence;
+        setData(cached.data);
+        setLoading(false);
+        // A cancelled request in flight no longer resets it itself
+        setIsValidating(false);
+        setError(null);
+        return cached.data;
+      }
+      if (serveStale) {
+        setData(cached!.data);
+      }
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setLoading(!serveStale);
+      setIsValidating(true);
+      setError(null);
+      setAborted(false);
+      setAttempt(0);
+      setProgress(null);
+      setQueued(false);
 
-        if (!response.ok) {
-          // Check if we should retry
-          const shouldRetry =
-            attemptNumber < (retry.attempts || 0) &&
-            (retry.retryOn?.includes(response.status) || false);
-
-          if (shouldRetry) {
-            return new Promise((resolve, reject) => {
-              retryTimeoutRef.current = setTimeout(() => {
-                executeWithRetry(requestOptions, attemptNumber + 1)
-                  .then(resolve)
-                  .catch(reject);
-              }, retry.delay || 1000);
-            });
+      // Mirror progress into state for the request started by this hook
+      const reportProgress =
+        (listener?: (progress: FetchProgress) => void) => (current: FetchProgress) => {
+          if (abortControllerRef.current === controller) {
+            setProgress(current);
           }
+          listener?.(current);
+        };
 
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
+      const request = applyFetchConfig(
+        resolvedUrl,
+        {
+          ...mergedOptions,
+          transport,
+          onUploadProgress: reportProgress(onUploadProgress),
+          onDownloadProgress: reportProgress(onDownloadProgress),
+          onChunk: (chunk: any, accumulated: any) => {
+            if (abortControllerRef.current === controller) {
+              setData(accumulated);
+            }
+            onChunk?.(chunk, accumulated);
+          },
+          fetchOptions: {
+            ...baseFetchOptions,
+            ...fetchOptions,
+            headers: { ...baseFetchOptions.headers, ...fetchOptions.headers },
+          },
+        },
+        fetchConfigRef.current
+      );
 
-        setResponse(response);
+      // Persist requests that cannot reach the server when their body can be stored
+      const queueRequest = (): boolean => {
+        const { method = 'GET' } = request.options;
+        if (!mergedOptions.offlineQueue || method === 'GET' || method === 'HEAD') return false;
 
-        // Parse response data
-        const contentType = response.headers.get('content-type');
-        let responseData: any;
+        const { url: queuedUrl, init } = buildRequest(request.url, request.options);
+        if (init.body !== undefined && typeof init.body !== 'string') return false;
 
-        if (contentType?.includes('application/json')) {
-          responseData = await response.json();
-        } else if (contentType?.includes('text/')) {
-          responseData = await response.text();
-        } else {
-          responseData = await response.blob();
+        offlineQueue.enqueue(queuedUrl, {
+          method,
+          headers: init.headers as Record<string, string>,
+          body: init.body,
+          credentials: init.credentials,
+        });
+        if (abortControllerRef.current === controller) {
+          setQueued(true);
         }
+        return true;
+      };
 
-        // Transform data if transformer provided
-        const finalData = transform ? transform(responseData) : responseData;
-
-        // Cache the data
-        if (cacheConfig?.key) {
-          setCachedData(cacheConfig.key, finalData);
+      try {
+        if (typeof navigator !== 'undefined' && navigator.onLine === false && queueRequest()) {
+          return null;
         }
 
-        setData(finalData);
+        // Retries are only reported to the hook that started a shared request
+        const result = await fetchData(
+          request.url,
+          request.options,
+          controller.signal,
+          {
+            revalidate,
+            onRetry: (retryAttempt) => {
+              if (abortControllerRef.current === controller) {
+                setAttempt(retryAttempt);
+              }
+            },
+          }
+        );
+
+        if (sequence < appliedSequenceRef.current) {
+          return result.data;
+        }
+        appliedSequenceRef.current = sequence;
+        updatedAtRef.current = Date.now();
+        setResponse(result.response);
+        setData(result.data);
         setError(null);
-        return finalData;
+        return result.data;
       } catch (err) {
-        if (err instanceof Error && err.name === 'AbortError') {
-          setAborted(true);
+        // Requests cancelled by a newer one are not reported as aborted
+        if (isAbortError(err)) {
+          if (abortControllerRef.current === controller) {
+            setAborted(true);
+          }
           return null;
         }
 
-        // Check if we should retry on error
-        const shouldRetry = attemptNumber < (retry.attempts || 0);
-        if (shouldRetry) {
-          return new Promise((resolve, reject) => {
-            retryTimeoutRef.current = setTimeout(() => {
-              executeWithRetry(requestOptions, attemptNumber + 1)
-                .then(resolve)
-                .catch(reject);
-            }, retry.delay || 1000);
-          });
+        if (err instanceof NetworkError && queueRequest()) {
+          return null;
+        }
+        if (isLatest()) {
+          setError(err instanceof Error ? err : new Error('Unknown error'));
+        }
+        return null;
+      } finally {
+        if (abortControllerRef.current === controller) {
+          setLoading(false);
+          setIsValidating(false);
         }
+      }
+    },
+    [resolvedUrl]
+  );
 
-        const error = err instanceof Error ? err : new Error('Unknown error');
-        setError(error);
-        throw error;
+  // Run a request according to the concurrency mode
+  const run = useCallback(
+    (overrideOptions: Partial<UseFetchOptions<T>> = {}, revalidate = false): Promise<T | null> => {
+      const { concurrency = 'cancel-previous' } = { ...optionsRef.current, ...overrideOptions };
+
+      if (concurrency === 'ignore-new' && pendingRef.current) {
+        return pendingRef.current;
+      }
+      if (concurrency === 'queue') {
+        const queued = queueRef.current.then(() => perform(overrideOptions, revalidate));
+        queueRef.current = queued;
+        return queued;
       }
+      if (concurrency === 'cancel-previous') {
+        const previous = abortControllerRef.current;
+        abortControllerRef.current = undefined;
+        previous?.abort();
+      }
+
+      const pending = perform(overrideOptions, revalidate);
+      pendingRef.current = pending;
+      pending.finally(() => {
+        if (pendingRef.current === pending) {
+          pendingRef.current = null;
+        }
+      });
+      return pending;
     },
-    [url, transform, retry, timeout, cacheConfig?.key, setCachedData]
+    [perform]
   );
 
   // Main execute function
   const execute = useCallback(
-    async (overrideOptions: Partial<UseFetchOptions<T>> = {}): Promise<T | null> => {
-      const mergedOptions = { ...options, ...overrideOptions };
-      
-      // Check cache first
-      if (cacheConfig?.key) {
-        const cachedData = getCachedData(cacheConfig.key);
-        if (cachedData) {
-          setData(cachedData);
-          setLoading(false);
-          setError(null);
-          return cachedData;
-        }
-      }
+    (overrideOptions?: Partial<UseFetchOptions<T>>) => run(overrideOptions),
+    [run]
+  );
 
-      setLoading(true);
-      setError(null);
-      setAborted(false);
+  // Refetch if the data is older than staleTime, once the hook has requested it at least once
+  const revalidateIfStale = useCallback(() => {
+    const { enabled = true, customCache, staleTime = customCache?.ttl ?? 0 } = optionsRef.current;
+    if (!enabled || !executedRef.current) return;
 
-      const requestOptions: RequestInit = {
-        method: mergedOptions.method || method,
-        headers: {
-          'Content-Type': 'application/json',
-          ...fetchOptions.headers,
-          ...(mergedOptions.fetchOptions?.headers || {}),
-        },
-        ...fetchOptions,
-        ...(mergedOptions.fetchOptions || {}),
-      };
+    const updatedAt = customCache?.key ? cache.get(customCache.key)?.timestamp : updatedAtRef.current;
+    if (updatedAt === undefined || Date.now() - updatedAt >= staleTime) {
+      run({}, true);
+    }
+  }, [run]);
 
-      // Add body if provided
-      if (mergedOptions.body || body) {
-        requestOptions.body = mergedOptions.body || body;
-      }
+  // Follow changes made to the shared cache entry by other hooks or fetchCache
+  useEffect(() => {
+    if (!cacheKey) return;
 
-      try {
-        const result = await executeWithRetry(requestOptions);
-        return result;
-      } catch (err) {
-        return null;
-      } finally {
-        setLoading(false);
+    return subscribeCache(cacheKey, (event) => {
+      if (event === 'invalidate') {
+        // Only hooks that already read the entry refetch it; mutations are never re-sent
+        const {
+          enabled,
+          method = 'GET',
+          refetchOnInvalidate = method === 'GET' || method === 'HEAD',
+        } = optionsRef.current;
+        if (enabled !== false && executedRef.current && refetchOnInvalidate) {
+          execute();
+        }
+        return;
       }
-    },
-    [options, method, body, fetchOptions, cacheConfig?.key, getCachedData, executeWithRetry]
-  );
+      if (event === 'clear') {
+        setData(null);
+        return;
+      }
+      const entry = cache.get(cacheKey);
+      if (entry) {
+        setData(entry.data);
+      }
+    });
+  }, [cacheKey, execute]);
 
-  // Execute on mount if immediate is true
+  // Execute on mount if immediate is true, and again whenever the URL, the enabled flag
+  // or the dependencies change. A single effect keeps these from firing twice.
   useEffect(() => {
-    if (immediate) {
+    const isFirstRun = isFirstRunRef.current;
+    isFirstRunRef.current = false;
+
+    if (!enabled || !resolvedUrl) return;
+
+    // Initial data, and data loaded by suspending, stays in use until it is stale
+    const { customCache, staleTime = customCache?.ttl ?? 0 } = optionsRef.current;
+    const initialUpdatedAt = updatedAtRef.current;
+    const initialStaleTime = suspense ? Math.max(staleTime, SUSPENSE_STALE_TIME) : staleTime;
+    if (
+      isFirstRun &&
+      initialUpdatedAt !== undefined &&
+      Date.now() - initialUpdatedAt < initialStaleTime
+    ) {
+      return;
+    }
+    if (immediate || (!isFirstRun && deps.length > 0)) {
       execute();
     }
-  }, [immediate, execute]);
+  }, [enabled, resolvedUrl, immediate, execute, ...deps]);
 
-  // Execute when dependencies change
+  // Refetch stale data when the window regains focus
   useEffect(() => {
-    if (deps.length > 0 && !immediate) {
-      execute();
-    }
-  }, deps);
+    if (!refetchOnWindowFocus || typeof window === 'undefined') return;
+
+    // Switching tabs fires both events: the second one within the throttle window is ignored
+    let lastFocus = 0;
+    const handleFocus = () => {
+      if (document.visibilityState === 'hidden' || Date.now() - lastFocus < FOCUS_THROTTLE) return;
+      lastFocus = Date.now();
+      revalidateIfStale();
+    };
+
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+    };
+  }, [refetchOnWindowFocus, revalidateIfStale]);
+
+  // Refetch stale data when the browser goes back online
+  useEffect(() => {
+    if (!refetchOnReconnect || typeof window === 'undefined') return;
+
+    window.addEventListener('online', revalidateIfStale);
+    return () => {
+      window.removeEventListener('online', revalidateIfStale);
+    };
+  }, [refetchOnReconnect, revalidateIfStale]);
+
+  // Refetch on an interval, skipping ticks while the document is hidden
+  useEffect(() => {
+    if (!refetchInterval || !enabled || typeof window === 'undefined') return;
+
+    const intervalId = setInterval(() => {
+      if (document.visibilityState !== 'hidden') {
+        run({}, true);
+      }
+    }, refetchInterval);
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [refetchInterval, enabled, run]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -381,15 +2273,37 @@ export const useFetch = <T = any>(
     };
   }, [abort]);
 
+  // Suspend until the data is in the cache; requests are only made in the browser
+  const suspenseEntry =
+    suspense && cacheKey ? peekCache(cacheKey, cacheConfig?.storage) : undefined;
+  if (suspense && enabled && resolvedUrl && !suspenseEntry && typeof window !== 'undefined') {
+    suspend(cacheKey!, () => {
+      const request = applyFetchConfig(resolvedUrl, options, fetchConfig);
+      return fetchData(request.url, request.options);
+    });
+  }
+
+  const currentData = suspenseEntry ? (suspenseEntry.data as T) : data;
+  const isPlaceholderData = currentData === null && placeholderData !== undefined;
+
   return {
-    data,
+    data: isPlaceholderData
+      ? typeof placeholderData === 'function'
+        ? (placeholderData as () => T)()
+        : placeholderData!
+      : currentData,
     loading,
+    isValidating,
     error,
     response,
     execute,
     abort,
     reset,
     aborted,
+    attempt,
+    progress,
+    isPlaceholderData,
+    queued,
   };
 };
 
@@ -0,0 +1,174 @@
+import { createContext, createElement, useContext, useMemo, type ReactNode } from 'react';
+import type {
+  FetchInterceptors,
+  FetchRequestMetrics,
+  FetchRequestStart,
+  UseFetchOptions,
+} from './useFetch';
+
+/**
+ * Defaults shared by every useFetch, useMutation and useInfiniteFetch below a FetchConfigProvider
+ */
+export interface FetchConfig {
+  /** Base URL prepended to relative request URLs */
+  baseURL?: string;
+  /** Headers sent with every request, overridden by per-call `fetchOptions.headers` */
+  headers?: Record<string, string>;
+  /** Default request timeout in milliseconds */
+  timeout?: number;
+  /** Default retry configuration, merged with per-call `retry` */
+  retry?: UseFetchOptions['retry'];
+  /** Default fetch options (credentials, mode, etc.) */
+  fetchOptions?: Omit<RequestInit, 'method' | 'body' | 'headers'>;
+  /** Interceptors run before the per-call ones */
+  interceptors?: FetchInterceptors;
+  /** Called when a request starts, before the per-call `onRequestStart` */
+  onRequestStart?: (request: FetchRequestStart) => void;
+  /** Called when a request ends, before the per-call `onRequestEnd` */
+  onRequestEnd?: (metrics: FetchRequestMetrics) => void;
+  /** Default trace header configuration */
+  trace?: UseFetchOptions['trace'];
+}
+
+/**
+ * Props for the FetchConfigProvider component
+ */
+export interface FetchConfigProviderProps {
+  /** Defaults merged over the ones of any parent provider */
+  config: FetchConfig;
+  children?: ReactNode;
+}
+
+const FetchConfigContext = createContext<FetchConfig>({});
+
+const isAbsoluteUrl = (url: string) => /^([a-z][a-z\d+\-.]*:)?\/\//i.test(url);
+
+// Call both listeners, the first one first
+const chainListeners = <A>(first?: (arg: A) => void, second?: (arg: A) => void) =>
+  first && second
+    ? (arg: A) => {
+        first(arg);
+        second(arg);
+      }
+    : first || second;
+
+// Combine two configurations, the second one taking precedence
+const mergeFetchConfig = (parent: FetchConfig, config: FetchConfig): FetchConfig => ({
+  ...parent,
+  ...config,
+  headers: { ...parent.headers, ...config.headers },
+  retry: parent.retry || config.retry ? { ...parent.retry, ...config.retry } : undefined,
+  fetchOptions: { ...parent.fetchOptions, ...config.fetchOptions },
+  interceptors: {
+    request: [...(parent.interceptors?.request || []), ...(config.interceptors?.request || [])],
+    response: [...(parent.interceptors?.response || []), ...(config.interceptors?.response || [])],
+  },
+  onRequestStart: chainListeners(parent.onRequestStart, config.onRequestStart),
+  onRequestEnd: chainListeners(parent.onRequestEnd, config.onRequestEnd),
+  trace: config.trace ?? parent.trace,
+});
+
+/**
+ * Resolve a request URL and options against a fetch configuration
+ */
+export const applyFetchConfig = <T = any>(
+  url: string,
+  options: UseFetchOptions<T>,
+  config: FetchConfig
+): { url: string; options: UseFetchOptions<T> } => {
+  const {
+    baseURL,
+    headers,
+    timeout,
+    retry,
+    fetchOptions,
+    interceptors,
+    onRequestStart,
+    onRequestEnd,
+    trace,
+  } = config;
+
+  return {
+    url:
+      baseURL && !isAbsoluteUrl(url)
+        ? `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`
+        : url,
+    options: {
+      ...options,
+      timeout: options.timeout ?? timeout,
+      retry: retry || options.retry ? { ...retry, ...options.retry } : undefined,
+      fetchOptions: {
+        ...fetchOptions,
+        ...options.fetchOptions,
+        headers: { ...headers, ...options.fetchOptions?.headers },
+      },
+      interceptors: {
+        request: [...(interceptors?.request || []), ...(options.interceptors?.request || [])],
+        response: [...(interceptors?.response || []), ...(options.interceptors?.response || [])],
+      },
+      onRequestStart: chainListeners(onRequestStart, options.onRequestStart),
+      onRequestEnd: chainListeners(onRequestEnd, options.onRequestEnd),
+      trace: options.trace ?? trace,
+    },
+  };
+};
+
+/**
+ * Provides default fetch configuration and interceptors to the fetch hooks below it
+ *
+ * Nested providers merge their configuration over the parent one.
+ *
+ * @example
+ * ```tsx
+ * import { FetchConfigProvider } from 'light-hooks';
+ *
+ * const config = {
+ *   baseURL: 'https://api.example.com',
+ *   timeout: 15000,
+ *   trace: true,
+ *   onRequestEnd: (metrics) => {
+ *     if (!metrics.deduped) analytics.track('api_request', metrics);
+ *   },
+ *   interceptors: {
+ *     request: [
+ *       async (request) => ({
+ *         ...request,
+ *         init: {
+ *           ...request.init,
+ *           headers: { ...request.init.headers, Authorization: `Bearer ${await getToken()}` },
+ *         },
+ *       }),
+ *     ],
+ *     response: [
+ *       (result) => {
+ *         if (result.response.status === 401) logout();
+ *         return result.response.ok ? { ...result, data: result.data.payload } : result;
+ *       },
+ *     ],
+ *   },
+ * };
+ *
+ * function App() {
+ *   return (
+ *     <FetchConfigProvider config={config}>
+ *       <Dashboard />
+ *     </FetchConfigProvider>
+ *   );
+ * }
+ * ```
+ */
+export const FetchConfigProvider = ({ config, children }: FetchConfigProviderProps) => {
+  const parent = useContext(FetchConfigContext);
+  const value = useMemo(() => mergeFetchConfig(parent, config), [parent, config]);
+
+  return createElement(FetchConfigContext.Provider, { value }, children);
+};
+
+/**
+ * A React hook returning the fetch configuration of the nearest FetchConfigProvider
+ *
+ * @returns The merged fetch configuration, or an empty one outside of any provider
+ */
+export const useFetchConfig = (): FetchConfig => useContext(FetchConfigContext);
+
+export default useFetchConfig;
@@ -0,0 +1,236 @@
+import {
+  fetchData,
+  useFetch,
+  type FetchRequestContext,
+  type FetchResponseContext,
+  type UseFetchOptions,
+  type UseFetchReturn,
+} from './useFetch';
+
+/**
+ * An entry of the `errors` array of a GraphQL response
+ */
+export interface GraphQLErrorDetail {
+  message: string;
+  locations?: { line: number; column: number }[];
+  path?: (string | number)[];
+  extensions?: Record<string, any>;
+}
+
+/**
+ * Error thrown when a GraphQL response contains errors, even if its HTTP status is 200
+ */
+export class GraphQLError<T = any> extends Error {
+  /** Errors returned by the server */
+  readonly errors: GraphQLErrorDetail[];
+  /** Partial data returned along with the errors, if any */
+  readonly data: T | null;
+  /** HTTP response object */
+  readonly response: Response;
+
+  constructor(errors: GraphQLErrorDetail[], data: T | null, response: Response) {
+    super(errors.map((error) => error.message).join('\n') || 'GraphQL error');
+    this.name = 'GraphQLError';
+    this.errors = errors;
+    this.data = data;
+    this.response = response;
+  }
+}
+
+/**
+ * Configuration options for the useGraphQL hook
+ */
+export interface UseGraphQLOptions<T = any>
+  extends Omit<UseFetchOptions<T>, 'method' | 'body' | 'query' | 'responseType'> {
+  /**
+   * URL of the GraphQL endpoint, resolved against the FetchConfigProvider `baseURL`
+   * @default '/graphql'
+   */
+  endpoint?: string;
+  /**
+   * Name of the operation to run
+   * @default The name of the first operation in the query
+   */
+  operationName?: string;
+  /**
+   * Send an automatic persisted query: only the SHA-256 hash of the query is sent, and the full
+   * query is sent again if the server does not know it yet. Pass `{ hash }` to use a hash
+   * computed at build time.
+   * @default false
+   */
+  persistedQuery?: boolean | { hash: string };
+}
+
+const OPERATION_NAME = /\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/;
+
+// Strings (kept as is), ignored characters around punctuators, and other runs of ignored characters
+const QUERY_TOKEN =
+  /("""(?:\\"""|[\s\S])*?"""|"(?:[^"\\\n\r]|\\.)*")|(?:\s|#[^\n\r]*)*([{}():,!=@$[\]])(?:\s|#[^\n\r]*)*|(?:\s|#[^\n\r]*)+/g;
+
+// Collapse comments and insignificant whitespace so equivalent queries share a cache key
+const normalizeQuery = (query: string): string =>
+  query
+    .replace(QUERY_TOKEN, (match, string?: string, punctuator?: string) => string ?? punctuator ?? ' ')
+    .trim();
+
+// JSON with sorted object keys, so variables in any order share a cache key
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const queryHashes = new Map<string, Promise<string>>();
+
+const sha256 = (text: string): Promise<string> => {
+  let hash = queryHashes.get(text);
+  if (!hash) {
+    hash = crypto.subtle
+      .digest('SHA-256', new TextEncoder().encode(text))
+      .then((digest) =>
+        Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+      );
+    queryHashes.set(text, hash);
+  }
+  return hash;
+};
+
+const isPersistedQueryNotFound = (errors: GraphQLErrorDetail[] | undefined) =>
+  !!errors?.some(
+    (error) =>
+      error.message === 'PersistedQueryNotFound' ||
+      error.extensions?.code === 'PERSISTED_QUERY_NOT_FOUND'
+  );
+
+/**
+ * A React hook for GraphQL queries built on useFetch
+ *
+ * Posts `{ query, variables, operationName }` to the endpoint and returns the `data` field
+ * of the response. A response with an `errors` array fails with a `GraphQLError`, even when
+ * its HTTP status is 200. Results are cached under a key derived from the normalized query
+ * and variables, and the query is re-run whenever that key changes.
+ *
+ * @param query - The GraphQL document to send
+ * @param variables - Variables of the operation
+ * @param options - Configuration options, including every useFetch option except the request body
+ * @returns The useFetch state for the operation, with `data` unwrapped from the response
+ *
+ * @example
+ * ```tsx
+ * import { useGraphQL, GraphQLError } from 'light-hooks';
+ *
+ * const USER_QUERY = `
+ *   query User($id: ID!) {
+ *     user(id: $id) { id name avatar }
+ *   }
+ * `;
+ *
+ * function Profile({ id }: { id: string }) {
+ *   const { data, loading, error } = useGraphQL<{ user: User }>(USER_QUERY, { id }, {
+ *     endpoint: 'https://api.example.com/graphql',
+ *     persistedQuery: true,
+ *     customCache: { ttl: 60000 }
+ *   });
+ *
+ *   if (error instanceof GraphQLError) return <div>{error.errors[0].message}</div>;
+ *   if (loading) return <div>Loading...</div>;
+ *   return <div>{data?.user.name}</div>;
+ * }
+ * ```
+ */
+export const useGraphQL = <T = any, V extends Record<string, any> = Record<string, any>>(
+  query: string,
+  variables?: V,
+  options: UseGraphQLOptions<T> = {}
+): UseFetchReturn<T> => {
+  const {
+    endpoint = '/graphql',
+    operationName = query.match(OPERATION_NAME)?.[1],
+    persistedQuery = false,
+    customCache,
+    interceptors,
+    deps = [],
+    ...fetchOptions
+  } = options;
+
+  const normalizedQuery = normalizeQuery(query);
+  const cacheKey =
+    customCache?.key ?? `graphql:${normalizedQuery}:${stableStringify(variables ?? {})}`;
+  const body = { query, variables, operationName };
+
+  // Replace the query with its hash when persisted queries are enabled
+  const sendPersistedQuery = async (request: FetchRequestContext): Promise<FetchRequestContext> => {
+    if (!persistedQuery) return request;
+
+    const sha256Hash = persistedQuery === true ? await sha256(query) : persistedQuery.hash;
+    return {
+      ...request,
+      init: {
+        ...request.init,
+        body: JSON.stringify({
+          variables,
+          operationName,
+          extensions: { persistedQuery: { version: 1, sha256Hash } },
+        }),
+      },
+    };
+  };
+
+  // Unwrap `data`, resending the full query if the server does not know its hash
+  const readResult = async (result: FetchResponseContext): Promise<FetchResponseContext> => {
+    if (persistedQuery && isPersistedQueryNotFound(result.data?.errors)) {
+      // Sent with the timeout and transport of the query, and cancelled along with it. It is not
+      // retried on its own: a failure fails the attempt, which the query's retries cover
+      const { body: persistedBody, signal, ...init } = result.init;
+      const fallback = await fetchData(
+        result.url,
+        {
+          method: 'POST',
+          body: { ...JSON.parse(persistedBody as string), query },
+          fetchOptions: init,
+          responseType: 'json',
+          timeout: fetchOptions.timeout,
+          retry: { attempts: 0 },
+          transport: fetchOptions.transport,
+        },
+        signal ?? undefined
+      );
+      result = { ...result, response: fallback.response!, data: fallback.data };
+    }
+    if (!result.response.ok || !result.data || typeof result.data !== 'object') {
+      return result;
+    }
+
+    const { data = null, errors } = result.data;
+    if (Array.isArray(errors) && errors.length > 0) {
+      throw new GraphQLError<T>(errors, data, result.response);
+    }
+    return { ...result, data };
+  };
+
+  return useFetch<T>(endpoint, {
+    ...fetchOptions,
+    method: 'POST',
+    body,
+    responseType: 'json',
+    // Queries are sent over POST but are still refetched when their entry is invalidated
+    refetchOnInvalidate:
+      fetchOptions.refetchOnInvalidate ?? !normalizedQuery.startsWith('mutation'),
+    customCache: { ...customCache, key: cacheKey },
+    interceptors: {
+      request: [...(interceptors?.request || []), sendPersistedQuery],
+      response: [readResult, ...(interceptors?.response || [])],
+    },
+    deps: [cacheKey, ...deps],
+  });
+};
+
+export default useGraphQL;
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchData, isAbortError, type UseFetchOptions } from './useFetch';
+import { applyFetchConfig, useFetchConfig } from './useFetchConfig';
+
+/**
+ * Configuration options for the useInfiniteFetch hook
+ */
+export interface UseInfiniteFetchOptions<TPage = any, P = any> extends UseFetchOptions<TPage> {
+  /** Page parameter used to fetch the first page */
+  initialPageParam: P;
+  /**
+   * Computes the parameter of the page following `lastPage`.
+   * Return `null` or `undefined` when there are no more pages.
+   */
+  getNextPageParam: (lastPage: TPage, allPages: TPage[]) => P | null | undefined;
+}
+
+/**
+ * Return values from the useInfiniteFetch hook
+ */
+export interface UseInfiniteFetchReturn<TPage, P> {
+  /** Every page fetched so far, in order */
+  pages: TPage[];
+  /** Page parameters used to fetch each page */
+  pageParams: P[];
+  /** Whether the first page is loading */
+  loading: boolean;
+  /** Error object if the last page request failed */
+  error: Error | null;
+  /** Whether there is another page to fetch */
+  hasNextPage: boolean;
+  /** Whether the next page is loading */
+  isFetchingNextPage: boolean;
+  /** Current retry attempt of the page request (0 while the first attempt is in flight) */
+  attempt: number;
+  /** Function to fetch and append the next page */
+  fetchNextPage: () => Promise<TPage | null>;
+  /** Function to drop every page and fetch the first one again, bypassing the cache */
+  refetch: () => Promise<TPage | null>;
+  /** Function to abort the current page request */
+  abort: () => void;
+  /** Function to reset the state */
+  reset: () => void;
+}
+
+interface PagesState<TPage, P> {
+  pages: TPage[];
+  pageParams: P[];
+}
+
+/**
+ * A React hook for paginated and infinite-scroll queries built on useFetch
+ *
+ * Each page is requested with the same retry, timeout, transform and cache handling
+ * as `useFetch`. When `customCache.key` is set, every page is cached under that key
+ * suffixed with its page parameter.
+ *
+ * @param getUrl - Builds the URL of a page from its page parameter
+ * @param options - Configuration options for the page requests and pagination
+ * @returns Object containing the accumulated pages, loading states and control functions
+ *
+ * @example
+ * ```tsx
+ * import { useInfiniteFetch } from 'light-hooks';
+ *
+ * function Feed() {
+ *   const { pages, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteFetch<FeedPage, string | null>(
+ *     (cursor) => `https://api.example.com/feed?cursor=${cursor ?? ''}`,
+ *     {
+ *       initialPageParam: null,
+ *       getNextPageParam: (lastPage) => lastPage.nextCursor,
+ *     }
+ *   );
+ *
+ *   return (
+ *     <>
+ *       {pages.flatMap((page) => page.items).map((item) => <Post key={item.id} {...item} />)}
+ *       {hasNextPage && (
+ *         <button disabled={isFetchingNextPage} onClick={() => fetchNextPage()}>
+ *           {isFetchingNextPage ? 'Loading...' : 'Load more'}
+ *         </button>
+ *       )}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export const useInfiniteFetch = <TPage = any, P = any>(
+  getUrl: (pageParam: P) => string,
+  options: UseInfiniteFetchOptions<TPage, P>
+): UseInfiniteFetchReturn<TPage, P> => {
+  const { immediate = true, enabled = true, deps = [], getNextPageParam } = options;
+
+  const [state, setState] = useState<PagesState<TPage, P>>({ pages: [], pageParams: [] });
+  const [loading, setLoading] = useState(false);
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const fetchConfig = useFetchConfig();
+  const abortControllerRef = useRef<AbortController>();
+  const optionsRef = useRef(options);
+  const fetchConfigRef = useRef(fetchConfig);
+  const getUrlRef = useRef(getUrl);
+  const stateRef = useRef(state);
+
+  // Keep the latest options and pages without recreating the fetch functions
+  useEffect(() => {
+    optionsRef.current = options;
+    fetchConfigRef.current = fetchConfig;
+    getUrlRef.current = getUrl;
+    stateRef.current = state;
+  });
+
+  // Abort current page request
+  const abort = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Reset state
+  const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setState({ pages: [], pageParams: [] });
+    setLoading(false);
+    setIsFetchingNextPage(false);
+    setError(null);
+    setAttempt(0);
+  }, []);
+
+  // Fetch a single page, either replacing or extending the current pages
+  const loadPage = useCallback(
+    async (pageParam: P, append: boolean, revalidate = false): Promise<TPage | null> => {
+      const { customCache } = optionsRef.current;
+
+      // A newer page request always supersedes the previous one
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      if (append) {
+        setIsFetchingNextPage(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+      setAttempt(0);
+
+      const request = applyFetchConfig<TPage>(
+        getUrlRef.current(pageParam),
+        {
+          ...optionsRef.current,
+          customCache: customCache?.key
+            ? { ...customCache, key: `${customCache.key}:${JSON.stringify(pageParam)}` }
+            : customCache,
+        },
+        fetchConfigRef.current
+      );
+
+      try {
+        const result = await fetchData<TPage>(request.url, request.options, controller.signal, {
+          onRetry: setAttempt,
+          revalidate,
+        });
+
+        const base = append ? stateRef.current : { pages: [], pageParams: [] };
+        const nextState = {
+          pages: [...base.pages, result.data],
+          pageParams: [...base.pageParams, pageParam],
+        };
+        stateRef.current = nextState;
+        setState(nextState);
+        return result.data;
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setError(err instanceof Error ? err : new Error('Unknown error'));
+        }
+        return null;
+      } finally {
+        if (abortControllerRef.current === controller) {
+          setLoading(false);
+          setIsFetchingNextPage(false);
+        }
+      }
+    },
+    []
+  );
+
+  // Load the first page, from a fresh cache entry if there is one
+  const loadFirstPage = useCallback(
+    () => loadPage(optionsRef.current.initialPageParam, false),
+    [loadPage]
+  );
+
+  // Refetch always goes to the network, even when the first page is cached
+  const refetch = useCallback(
+    () => loadPage(optionsRef.current.initialPageParam, false, true),
+    [loadPage]
+  );
+
+  const fetchNextPage = useCallback(async (): Promise<TPage | null> => {
+    const { pages } = stateRef.current;
+    if (pages.length === 0) {
+      return loadFirstPage();
+    }
+
+    const nextPageParam = optionsRef.current.getNextPageParam(pages[pages.length - 1], pages);
+    if (nextPageParam === null || nextPageParam === undefined) {
+      return null;
+    }
+    return loadPage(nextPageParam, true);
+  }, [loadPage, loadFirstPage]);
+
+  // Fetch the first page on mount and whenever dependencies change
+  useEffect(() => {
+    if (immediate && enabled) {
+      loadFirstPage();
+    }
+  }, [immediate, enabled, loadFirstPage, ...deps]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      abort();
+    };
+  }, [abort]);
+
+  const lastPage = state.pages[state.pages.length - 1];
+  const nextPageParam =
+    state.pages.length > 0 ? getNextPageParam(lastPage, state.pages) : undefined;
+
+  return {
+    pages: state.pages,
+    pageParams: state.pageParams,
+    loading,
+    error,
+    hasNextPage: nextPageParam !== null && nextPageParam !== undefined,
+    isFetchingNextPage,
+    attempt,
+    fetchNextPage,
+    refetch,
+    abort,
+    reset,
+  };
+};
+
+export default useInfiniteFetch;
@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  fetchCache,
+  fetchData,
+  getCacheEntry,
+  isAbortError,
+  restoreCacheEntry,
+  type FetchMethod,
+  type UseFetchOptions,
+} from './useFetch';
+import { applyFetchConfig, useFetchConfig } from './useFetchConfig';
+
+/**
+ * Configuration options for the useMutation hook
+ */
+export interface UseMutationOptions<T = any, V = any, C = any>
+  extends Pick<
+    UseFetchOptions<T>,
+    | 'transform'
+    | 'responseType'
+    | 'validate'
+    | 'retry'
+    | 'timeout'
+    | 'fetchOptions'
+    | 'interceptors'
+    | 'onRequestStart'
+    | 'onRequestEnd'
+    | 'trace'
+  > {
+  /**
+   * HTTP method to use
+   * @default 'POST'
+   */
+  method?: FetchMethod;
+  /**
+   * Cache key (as used by `useFetch`'s `customCache.key`) of the entry this mutation affects
+   */
+  cacheKey?: string;
+  /**
+   * Computes the optimistic cache value from the current entry and the mutation variables.
+   * Applied before the request is sent and rolled back if it fails.
+   */
+  optimisticData?: (current: any, variables: V) => any;
+  /**
+   * Whether to make hooks using `cacheKey` refetch after a successful mutation
+   * @default true
+   */
+  invalidate?: boolean;
+  /** Called before the request is sent; its return value is passed to the other callbacks as context */
+  onMutate?: (variables: V) => C | Promise<C>;
+  /** Called when the request succeeds */
+  onSuccess?: (data: T, variables: V, context: C | undefined) => void;
+  /** Called when the request fails, after the optimistic update was rolled back */
+  onError?: (error: Error, variables: V, context: C | undefined) => void;
+  /** Called when the request either succeeds or fails */
+  onSettled?: (data: T | null, error: Error | null, variables: V, context: C | undefined) => void;
+}
+
+/**
+ * Return values from the useMutation hook
+ */
+export interface UseMutationReturn<T, V> {
+  /** Response data of the last successful mutation */
+  data: T | null;
+  /** Whether a mutation is in progress */
+  loading: boolean;
+  /** Error object if the last mutation failed */
+  error: Error | null;
+  /** HTTP response object */
+  response: Response | null;
+  /** Function to send the mutation with the given variables as body (plain objects are sent as JSON) */
+  mutate: (variables: V) => Promise<T | null>;
+  /** Function to abort the current mutation */
+  abort: () => void;
+  /** Function to reset the state */
+  reset: () => void;
+  /** Whether the mutation was aborted */
+  aborted: boolean;
+}
+
+/**
+ * A React hook for sending mutations with optimistic cache updates
+ *
+ * Shares the retry, timeout and abort handling of `useFetch`. When `cacheKey` and
+ * `optimisticData` are given, the cached entry is updated immediately (re-rendering every
+ * `useFetch` using that key) and restored to its previous snapshot if the request fails.
+ *
+ * @param url - The URL to send the mutation to
+ * @param options - Configuration options for the mutation
+ * @returns Object containing the mutate function, state and control functions
+ *
+ * @example
+ * ```tsx
+ * import { useFetch, useMutation } from 'light-hooks';
+ *
+ * function TodoList() {
+ *   const { data: todos } = useFetch<Todo[]>('/api/todos', {
+ *     customCache: { key: 'todos', ttl: 60000 }
+ *   });
+ *
+ *   const { mutate: addTodo, loading } = useMutation<Todo, NewTodo>('/api/todos', {
+ *     cacheKey: 'todos',
+ *     optimisticData: (current: Todo[] = [], todo) => [...current, { id: 'temp', ...todo }],
+ *     onError: (error) => toast.error(error.message),
+ *   });
+ *
+ *   return (
+ *     <>
+ *       {todos?.map((todo) => <div key={todo.id}>{todo.title}</div>)}
+ *       <button disabled={loading} onClick={() => addTodo({ title: 'New todo' })}>
+ *         Add
+ *       </button>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export const useMutation = <T = any, V = any, C = any>(
+  url: string,
+  options: UseMutationOptions<T, V, C> = {}
+): UseMutationReturn<T, V> => {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [response, setResponse] = useState<Response | null>(null);
+  const [aborted, setAborted] = useState(false);
+
+  const fetchConfig = useFetchConfig();
+  const abortControllerRef = useRef<AbortController>();
+  const optionsRef = useRef(options);
+  const fetchConfigRef = useRef(fetchConfig);
+
+  // Keep the latest options without recreating mutate on every render
+  useEffect(() => {
+    optionsRef.current = options;
+    fetchConfigRef.current = fetchConfig;
+  });
+
+  // Abort current mutation
+  const abort = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      setAborted(true);
+    }
+  }, []);
+
+  // Reset state
+  const reset = useCallback(() => {
+    setData(null);
+    setError(null);
+    setResponse(null);
+    setLoading(false);
+    setAborted(false);
+  }, []);
+
+  const mutate = useCallback(
+    async (variables: V): Promise<T | null> => {
+      const {
+        method = 'POST',
+        cacheKey,
+        optimisticData,
+        invalidate = true,
+        onMutate,
+        onSuccess,
+        onError,
+        onSettled,
+        ...requestOptions
+      } = optionsRef.current;
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setLoading(true);
+      setError(null);
+      setAborted(false);
+
+      let snapshot: ReturnType<typeof getCacheEntry>;
+      let optimistic = false;
+      let context: C | undefined;
+      let result: { data: T; response: Response | null };
+
+      try {
+        context = await onMutate?.(variables);
+
+        // Snapshot the entry as onMutate left it, right before the optimistic update
+        if (cacheKey && optimisticData) {
+          snapshot = getCacheEntry(cacheKey);
+          optimistic = true;
+          fetchCache.mutate(cacheKey, (current: any) => optimisticData(current, variables));
+        }
+
+        const request = applyFetchConfig<T>(
+          url,
+          { ...requestOptions, method, body: variables },
+          fetchConfigRef.current
+        );
+        result = await fetchData<T>(request.url, request.options, controller.signal);
+      } catch (err) {
+        // Roll back the optimistic update
+        if (cacheKey && optimistic) {
+          restoreCacheEntry(cacheKey, snapshot);
+        }
+
+        if (isAbortError(err)) {
+          setAborted(true);
+          return null;
+        }
+
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        setError(error);
+        onError?.(error, variables, context);
+        onSettled?.(null, error, variables, context);
+        return null;
+      } finally {
+        if (abortControllerRef.current === controller) {
+          setLoading(false);
+        }
+      }
+
+      // Outside the try, so a throwing success callback is not taken for a failed request
+      setResponse(result.response);
+      setData(result.data);
+      onSuccess?.(result.data, variables, context);
+      onSettled?.(result.data, null, variables, context);
+
+      if (cacheKey && invalidate) {
+        fetchCache.invalidate(cacheKey);
+      }
+      return result.data;
+    },
+    [url]
+  );
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      abort();
+    };
+  }, [abort]);
+
+  return {
+    data,
+    loading,
+    error,
+    response,
+    mutate,
+    abort,
+    reset,
+    aborted,
+  };
+};
+
+export default useMutation;
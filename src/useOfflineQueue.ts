@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FetchRequestContext } from './useFetch';
+
+/**
+ * Replay status of a queued request
+ * - 'pending': waiting to be replayed
+ * - 'replaying': being sent
+ * - 'failed': the server rejected it; kept until retried or removed
+ * - 'conflict': the server reported a conflict that `onConflict` did not discard
+ *
+ * Failed and conflicting items hold back the items queued after them, so requests always
+ * reach the server in order.
+ */
+export type OfflineQueueStatus = 'pending' | 'replaying' | 'failed' | 'conflict';
+
+/**
+ * Request options persisted with a queued request
+ */
+export interface OfflineRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  credentials?: RequestCredentials;
+}
+
+/**
+ * A request waiting in the offline queue
+ */
+export interface OfflineQueueItem {
+  /** Unique identifier of the item */
+  id: string;
+  /** Resolved request URL, including query parameters */
+  url: string;
+  /** Options the request is replayed with */
+  init: OfflineRequestInit;
+  /** Time the request was queued, in milliseconds since the epoch */
+  createdAt: number;
+  status: OfflineQueueStatus;
+  /** Number of replay attempts made */
+  attempts: number;
+  /** Reason of the last failure */
+  error?: string;
+}
+
+/**
+ * Options of the offline queue, set with `offlineQueue.configure`
+ */
+export interface OfflineQueueOptions {
+  /**
+   * Storage the queue is persisted to; null keeps it in memory only
+   * @default window.localStorage
+   */
+  storage?: Storage | null;
+  /**
+   * Storage key of the queue
+   * @default 'light-hooks:offline-queue'
+   */
+  storageKey?: string;
+  /**
+   * Response statuses reported to `onConflict`
+   * @default [409, 412]
+   */
+  conflictStatuses?: number[];
+  /** Rewrite a request right before it is replayed, e.g. to add the credential headers back */
+  prepareRequest?: (request: FetchRequestContext) => FetchRequestContext | Promise<FetchRequestContext>;
+  /** Called when a replayed request succeeds; the item is then removed from the queue */
+  onSuccess?: (item: OfflineQueueItem, response: Response) => void;
+  /**
+   * Called when a replayed request gets a conflict response. Return 'discard' to drop the item;
+   * otherwise it is kept with the 'conflict' status.
+   */
+  onConflict?: (
+    item: OfflineQueueItem,
+    response: Response
+  ) => 'discard' | 'keep' | void | Promise<'discard' | 'keep' | void>;
+  /** Called when a replayed request fails with any other error status */
+  onError?: (item: OfflineQueueItem, error: Error) => void;
+}
+
+/**
+ * Controller of the queue holding requests made while offline
+ */
+export interface OfflineQueue {
+  /** Update the queue options */
+  configure: (options: OfflineQueueOptions) => void;
+  /**
+   * Add a request to the end of the queue. Credential headers (Authorization, Cookie,
+   * Proxy-Authorization) are not persisted: add them back with `prepareRequest`.
+   * @returns The queued item
+   */
+  enqueue: (url: string, init: OfflineRequestInit) => OfflineQueueItem;
+  /** Every queued item, in replay order */
+  items: () => OfflineQueueItem[];
+  /**
+   * Send the pending items in order, stopping at the first network failure and at the
+   * first failed or conflicting item. Runs automatically when the browser goes back online.
+   */
+  replay: () => Promise<void>;
+  /** Mark a failed or conflicting item as pending again and replay the queue */
+  retry: (id: string) => Promise<void>;
+  /** Remove an item from the queue */
+  remove: (id: string) => void;
+  /** Remove every item from the queue */
+  clear: () => void;
+  /** Listen for changes to the queue */
+  subscribe: (listener: (items: OfflineQueueItem[]) => void) => () => void;
+}
+
+const DEFAULT_STORAGE_KEY = 'light-hooks:offline-queue';
+
+// Headers never written to storage
+const CREDENTIAL_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+const getLocalStorage = (): Storage | null => {
+  try {
+    return typeof window === 'undefined' ? null : window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+let config: OfflineQueueOptions = {};
+let queue: OfflineQueueItem[] | undefined;
+let replaying: Promise<void> | null = null;
+let listening = false;
+const listeners = new Set<(items: OfflineQueueItem[]) => void>();
+
+const getStorage = () => (config.storage === undefined ? getLocalStorage() : config.storage);
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Load the persisted queue on first use
+const getQueue = (): OfflineQueueItem[] => {
+  if (queue) return queue;
+  queue = [];
+
+  try {
+    const stored = getStorage()?.getItem(config.storageKey ?? DEFAULT_STORAGE_KEY);
+    const items: OfflineQueueItem[] = stored ? JSON.parse(stored) : [];
+    // Items being replayed when the page was closed are sent again
+    queue = items.map((item) => (item.status === 'replaying' ? { ...item, status: 'pending' } : item));
+  } catch {
+    // Unreadable queue
+  }
+  return queue;
+};
+
+const saveQueue = (items: OfflineQueueItem[]) => {
+  queue = items;
+  try {
+    getStorage()?.setItem(config.storageKey ?? DEFAULT_STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    // Storage full or unavailable: the queue is kept in memory
+  }
+  listeners.forEach((listener) => listener(items));
+};
+
+// Replay the queue whenever the browser goes back online, listening from the first use of the queue
+const listenOnline = () => {
+  if (listening || typeof window === 'undefined') return;
+  listening = true;
+  window.addEventListener('online', () => {
+    offlineQueue.replay();
+  });
+};
+
+const updateItem = (id: string, changes: Partial<OfflineQueueItem>) => {
+  saveQueue(getQueue().map((item) => (item.id === id ? { ...item, ...changes } : item)));
+};
+
+// Send a single item, returning false when the items after it must wait
+const replayItem = async (item: OfflineQueueItem): Promise<boolean> => {
+  const { conflictStatuses = [409, 412], prepareRequest, onSuccess, onConflict, onError } = config;
+  const attempt = { ...item, status: 'replaying' as const, attempts: item.attempts + 1 };
+  updateItem(item.id, attempt);
+
+  let response: Response;
+  try {
+    let request: FetchRequestContext = { url: item.url, init: { ...item.init } };
+    if (prepareRequest) {
+      request = await prepareRequest(request);
+    }
+    response = await fetch(request.url, request.init);
+  } catch (error) {
+    updateItem(item.id, {
+      status: 'pending',
+      error: error instanceof Error ? error.message : 'Network error',
+    });
+    return false;
+  }
+
+  if (response.ok) {
+    offlineQueue.remove(item.id);
+    onSuccess?.(attempt, response);
+    return true;
+  }
+
+  if (conflictStatuses.includes(response.status)) {
+    const resolution = await onConflict?.(attempt, response);
+    if (resolution === 'discard') {
+      offlineQueue.remove(item.id);
+    } else {
+      updateItem(item.id, {
+        status: 'conflict',
+        error: `HTTP ${response.status}: ${response.statusText}`,
+      });
+      return false;
+    }
+    return true;
+  }
+
+  const error = new Error(`HTTP ${response.status}: ${response.statusText}`);
+  updateItem(item.id, { status: 'failed', error: error.message });
+  onError?.(attempt, error);
+  return false;
+};
+
+/**
+ * Queue of requests made while offline, persisted to localStorage by default.
+ * Requests are added by `useFetch` with the `offlineQueue` option, or with `enqueue`.
+ *
+ * @example
+ * ```tsx
+ * import { offlineQueue } from 'light-hooks';
+ *
+ * offlineQueue.configure({
+ *   prepareRequest: async (request) => ({
+ *     ...request,
+ *     init: {
+ *       ...request.init,
+ *       headers: { ...request.init.headers, Authorization: `Bearer ${await getToken()}` },
+ *     },
+ *   }),
+ *   onConflict: (item, response) => (response.status === 409 ? 'discard' : 'keep'),
+ * });
+ * ```
+ */
+export const offlineQueue: OfflineQueue = {
+  configure: (options) => {
+    const storageChanged = 'storage' in options || 'storageKey' in options;
+    config = { ...config, ...options };
+    if (storageChanged) {
+      queue = undefined;
+    }
+    getQueue();
+    listenOnline();
+  },
+
+  enqueue: (url, init) => {
+    const headers = Object.fromEntries(
+      Object.entries(init.headers).filter(([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase()))
+    );
+    const item: OfflineQueueItem = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      url,
+      init: { ...init, headers },
+      createdAt: Date.now(),
+      status: 'pending',
+      attempts: 0,
+    };
+    saveQueue([...getQueue(), item]);
+    listenOnline();
+    return item;
+  },
+
+  items: () => getQueue(),
+
+  replay: () => {
+    replaying ??= (async () => {
+      try {
+        // Items are replayed one at a time so the server receives them in order
+        for (const { id } of getQueue()) {
+          const item = getQueue().find((current) => current.id === id);
+          if (!item) continue;
+          if (item.status !== 'pending' || isOffline() || !(await replayItem(item))) break;
+        }
+      } finally {
+        replaying = null;
+      }
+    })();
+    return replaying;
+  },
+
+  retry: async (id) => {
+    await replaying;
+    updateItem(id, { status: 'pending' });
+    return offlineQueue.replay();
+  },
+
+  remove: (id) => {
+    saveQueue(getQueue().filter((item) => item.id !== id));
+  },
+
+  clear: () => {
+    saveQueue([]);
+  },
+
+  subscribe: (listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+/**
+ * Return values from the useOfflineQueue hook
+ */
+export interface UseOfflineQueueReturn {
+  /** Every queued request with its replay status */
+  items: OfflineQueueItem[];
+  /** Number of requests waiting to be replayed */
+  pendingCount: number;
+  /** Function to replay the pending requests now */
+  replay: () => Promise<void>;
+  /** Function to replay a failed or conflicting request again */
+  retry: (id: string) => Promise<void>;
+  /** Function to drop a queued request */
+  remove: (id: string) => void;
+  /** Function to drop every queued request */
+  clear: () => void;
+}
+
+/**
+ * A React hook exposing the requests waiting in the offline queue
+ *
+ * Pending requests are replayed when the hook mounts while online.
+ *
+ * @returns Object containing the queued items and control functions
+ *
+ * @example
+ * ```tsx
+ * import { useFetch, useOfflineQueue } from 'light-hooks';
+ *
+ * function ReportForm() {
+ *   const { execute, queued } = useFetch('/api/reports', {
+ *     method: 'POST',
+ *     immediate: false,
+ *     offlineQueue: true,
+ *   });
+ *   const { items, retry, remove } = useOfflineQueue();
+ *
+ *   return (
+ *     <>
+ *       <button onClick={() => execute({ body: report })}>Submit</button>
+ *       {queued && <p>You are offline, the report will be sent later.</p>}
+ *       {items.map((item) => (
+ *         <div key={item.id}>
+ *           {item.status} {item.error}
+ *           {item.status !== 'pending' && <button onClick={() => retry(item.id)}>Retry</button>}
+ *           <button onClick={() => remove(item.id)}>Discard</button>
+ *         </div>
+ *       ))}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export const useOfflineQueue = (): UseOfflineQueueReturn => {
+  const [items, setItems] = useState<OfflineQueueItem[]>(() => offlineQueue.items());
+
+  useEffect(() => {
+    listenOnline();
+    const unsubscribe = offlineQueue.subscribe(setItems);
+    setItems(offlineQueue.items());
+    if (!isOffline()) {
+      offlineQueue.replay();
+    }
+    return unsubscribe;
+  }, []);
+
+  const replay = useCallback(() => offlineQueue.replay(), []);
+  const retry = useCallback((id: string) => offlineQueue.retry(id), []);
+  const remove = useCallback((id: string) => offlineQueue.remove(id), []);
+  const clear = useCallback(() => offlineQueue.clear(), []);
+
+  return {
+    items,
+    pendingCount: items.filter((item) => item.status === 'pending').length,
+    replay,
+    retry,
+    remove,
+    clear,
+  };
+};
+
+export default useOfflineQueue;
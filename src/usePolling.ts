@@ -1,23 +1,89 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import { parseRetryAfter } from "./useFetch";
+
+/** Backoff applied between polls after consecutive failures */
+export interface UsePollingBackoff {
+  /** Factor the delay is multiplied by after each consecutive failure (default: 2) */
+  multiplier?: number;
+  /** Maximum delay between failed polls in milliseconds (default: 30000ms) */
+  maxDelay?: number;
+  /** Fraction of the delay randomly added or removed to spread out clients (default: 0.2) */
+  jitter?: number;
+}
+
+/** Stop condition that ended polling */
+export type UsePollingCompleteReason = "until" | "maxAttempts" | "maxDuration";
+
+/** Condition polling is paused for */
+export type UsePollingPauseReason = "hidden" | "offline";
+
+/** Context passed to the polled function */
+export interface UsePollingContext<T = any> {
+  /** Signal aborted when polling is stopped or the component unmounts */
+  signal: AbortSignal;
+  /** Number of the poll since polling started, starting at 1; manual polls reuse the next number */
+  attempt: number;
+  /** Data of the last successful poll */
+  previousData: T | null;
+  /** Cursor of the last response (its ETag, or the value returned by `getCursor`) */
+  cursor: string | null;
+  /**
+   * Headers handing the cursor to the server: `If-None-Match` for ETags, or `cursorHeader`
+   * for cursors returned by `getCursor`
+   */
+  headers: Record<string, string>;
+}
 
 /** Configuration options for the usePolling hook */
 export interface UsePollingOptions<T = any> {
-  /** Function that returns a promise with data to poll */
-  fn: () => Promise<T>;
+  /**
+   * Function that returns a promise with data to poll; pass `signal` on to fetch to cancel it on stop.
+   * It may also resolve to a fetch `Response`, which is read for you: its ETag becomes the cursor,
+   * 304 and empty responses mean no change, `Retry-After` is honored and the body becomes `data`.
+   * Resolving to `undefined` means no change as well.
+   */
+  fn: (context: UsePollingContext<T>) => Promise<T | Response | undefined>;
   /** Type of polling: interval-based or long polling */
   type?: "long" | "interval";
-  /** Interval between polls in milliseconds (default: 1000ms) */
-  interval?: number;
+  /**
+   * Interval between polls in milliseconds (default: 1000ms), or a function of the last
+   * data and error returning it, e.g. to slow down when nothing changes
+   */
+  interval?: number | ((data: T | null, error: Error | null) => number);
   /** Whether to start polling automatically (default: true) */
   autoStart?: boolean;
-  /** Maximum number of retry attempts on error (default: 3) */
+  /** Number of consecutive failures retried before the error is reported in `error` (default: 3) */
   maxRetries?: number;
-  /** Delay between retry attempts in milliseconds (default: 1000ms) */
+  /** Delay before retrying in milliseconds, grown by the backoff when enabled (default: 1000ms) */
   retryDelay?: number;
+  /**
+   * Exponential backoff applied to `retryDelay` while polls keep failing; pass `{}` for the
+   * defaults. Polling goes back to `interval` after the next success. (default: false, always
+   * wait `retryDelay`)
+   */
+  backoff?: UsePollingBackoff | false;
   /** Callback function when polling encounters an error */
   onError?: (error: Error, retryCount: number) => void;
   /** Callback function when polling succeeds */
   onSuccess?: (data: T) => void;
+  /** Stop polling once this returns true for the polled data, e.g. when a job is done */
+  until?: (data: T) => boolean;
+  /** Maximum number of polls per run, including failed ones but not manual `poll()` calls */
+  maxAttempts?: number;
+  /** Maximum duration of a run in milliseconds */
+  maxDuration?: number;
+  /** Callback function when polling ends because a stop condition was met */
+  onComplete?: (data: T | null, reason: UsePollingCompleteReason) => void;
+  /** Computes the cursor handed to the next poll from the polled data, e.g. a last event id */
+  getCursor?: (data: T) => string | null | undefined;
+  /** Header the `getCursor` cursor is sent in through `context.headers`, e.g. 'Last-Event-ID' */
+  cursorHeader?: string;
+  /** Computes a server-advised wait in milliseconds before the next poll from the polled data */
+  getWaitTime?: (data: T) => number | null | undefined;
+  /** Whether to pause polling while the page is hidden and poll as soon as it is shown (default: false) */
+  pauseWhenHidden?: boolean;
+  /** Whether to pause polling while offline and poll as soon as the browser is back online (default: false) */
+  pauseWhenOffline?: boolean;
 }
 
 /** Return values from the usePolling hook */
@@ -32,6 +98,10 @@ export interface UsePollingResults<T = any> {
   error: Error | null;
   /** Number of consecutive failed attempts */
   retryCount: number;
+  /** Whether polling ended because `until`, `maxAttempts` or `maxDuration` was met */
+  isComplete: boolean;
+  /** Why the running polling is paused, or null if it is not */
+  pauseReason: UsePollingPauseReason | null;
   /** Function to start polling */
   start: () => void;
   /** Function to stop polling */
@@ -42,20 +112,66 @@ export interface UsePollingResults<T = any> {
   reset: () => void;
 }
 
+// Outcome of a poll (data, no change or an error), with the cursor and wait advised by the server
+interface PollUpdate<T> {
+  changed: boolean;
+  data?: T;
+  etag: string | null;
+  waitTime: number | null;
+  error?: Error;
+}
+
+// Read a fetch response resolved by the polled function
+const readResponse = async <T>(response: Response): Promise<PollUpdate<T>> => {
+  const etag = response.headers.get("etag");
+  const waitTime = parseRetryAfter(response);
+
+  if (response.status === 304 || response.status === 204) {
+    return { changed: false, etag, waitTime };
+  }
+  // Failures keep the advised wait, e.g. of a 429 or 503
+  if (!response.ok) {
+    const error = new Error(`HTTP ${response.status}: ${response.statusText}`);
+    return { changed: false, etag, waitTime, error };
+  }
+
+  const text = await response.text();
+  if (!text) {
+    return { changed: false, etag, waitTime };
+  }
+
+  const isJson = (response.headers.get("content-type") || "").includes("json");
+  return { changed: true, data: isJson ? JSON.parse(text) : text, etag, waitTime };
+};
+
+// Delay before retrying after the given number of consecutive failures
+const getBackoffDelay = (
+  failures: number,
+  retryDelay: number,
+  backoff: UsePollingBackoff | false
+): number => {
+  if (!backoff) return retryDelay;
+
+  const { multiplier = 2, maxDelay = 30000, jitter = 0.2 } = backoff;
+  const delay = Math.min(maxDelay, retryDelay * Math.pow(multiplier, failures - 1));
+  return Math.max(0, delay * (1 + jitter * (Math.random() * 2 - 1)));
+};
+
 /**
  * React hook for polling data at regular intervals or using long polling
  *
  * This hook provides comprehensive polling functionality with support for both interval-based
- * and long polling patterns. It includes error handling, retry logic, and proper cleanup.
+ * and long polling patterns. It includes error handling, retry logic with optional
+ * exponential backoff, and proper cleanup.
  *
  * @param options - Configuration options for polling behavior
  * @returns Object containing polling state and control functions
  *
  * @example
  * ```tsx
- * // Basic interval polling
+ * // Basic interval polling, cancelling the request in flight on stop
  * const { data, isLoading, error } = usePolling({
- *   fn: () => fetch('/api/data').then(r => r.json()),
+ *   fn: ({ signal }) => fetch('/api/data', { signal }).then(r => r.json()),
  *   interval: 5000
  * });
  *
@@ -67,6 +183,48 @@ export interface UsePollingResults<T = any> {
  *   onError: (error) => console.error('Polling failed:', error)
  * });
  *
+ * // Back off up to a minute while the server is failing, and poll less often when idle
+ * const { data } = usePolling({
+ *   fn: fetchQueueStats,
+ *   interval: (stats) => (stats?.pending ? 2000 : 30000),
+ *   retryDelay: 2000,
+ *   backoff: { multiplier: 2, maxDelay: 60000, jitter: 0.3 }
+ * });
+ *
+ * // Poll a job until it reaches a terminal state, for at most 5 minutes
+ * const { data: job, isComplete } = usePolling({
+ *   fn: () => fetch(`/api/jobs/${id}`).then(r => r.json()),
+ *   interval: 2000,
+ *   until: (job) => job.status === 'done' || job.status === 'failed',
+ *   maxDuration: 5 * 60 * 1000,
+ *   onComplete: (job, reason) => {
+ *     if (reason !== 'until') toast('The job is taking longer than expected');
+ *   }
+ * });
+ *
+ * // Long polling that resumes from the last ETag; 304 responses keep the current data
+ * const { data: messages } = usePolling<Message[]>({
+ *   fn: ({ signal, headers }) => fetch('/api/messages/poll', { signal, headers }),
+ *   type: 'long'
+ * });
+ *
+ * // Long polling threading a cursor from the data
+ * const { data: events } = usePolling<EventBatch>({
+ *   fn: ({ signal, cursor }) =>
+ *     fetch(`/api/events?after=${cursor ?? ''}`, { signal }).then(r => r.json()),
+ *   type: 'long',
+ *   getCursor: (batch) => batch.lastEventId,
+ *   getWaitTime: (batch) => batch.retryAfterMs
+ * });
+ *
+ * // Only poll while the dashboard is visible and online
+ * const { data, pauseReason } = usePolling({
+ *   fn: fetchMetrics,
+ *   interval: 10000,
+ *   pauseWhenHidden: true,
+ *   pauseWhenOffline: true
+ * });
+ *
  * // Manual control
  * const { poll, isLoading } = usePolling({
  *   fn: fetchUserData,
@@ -75,194 +233,372 @@ export interface UsePollingResults<T = any> {
  * ```
  */
 
-export const usePolling = <T = any>({
-  fn,
-  type = "interval",
-  interval = 1000,
-  autoStart = true,
-  maxRetries = 3,
-  retryDelay = 1000,
-  onError,
-  onSuccess,
-}: UsePollingOptions<T>): UsePollingResults<T> => {
+export const usePolling = <T = any>(options: UsePollingOptions<T>): UsePollingResults<T> => {
+  const { autoStart = true } = options;
+
   // State management
   const [data, setData] = useState<T | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isRunning, setIsRunning] = useState(autoStart);
+  const [isRunning, setIsRunning] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [isComplete, setIsComplete] = useState(false);
+  const [pauseReason, setPauseReason] = useState<UsePollingPauseReason | null>(null);
 
   // Refs for stable references
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const fnRef = useRef(fn);
+  // Controllers of every poll in flight, loop and manual ones alike
+  const abortControllersRef = useRef(new Set<AbortController>());
+  const optionsRef = useRef(options);
   const isActiveRef = useRef(true);
+  const isRunningRef = useRef(false);
+  // Incremented on every start and stop so polls of a previous run do not schedule more
+  const runRef = useRef(0);
+  const failuresRef = useRef(0);
+  const attemptsRef = useRef(0);
+  const isPollingRef = useRef(false);
+  // Run whose loop is suspended until the pause conditions clear
+  const pausedRunRef = useRef<number | null>(null);
+  const startedAtRef = useRef(0);
+  const dataRef = useRef<T | null>(null);
+  // Kept across runs so a restarted long poll resumes where the last response left off
+  const cursorRef = useRef<{ type: "etag" | "custom"; value: string } | null>(null);
+  const waitTimeRef = useRef<number | null>(null);
+  const errorRef = useRef<Error | null>(null);
 
-  // Update function reference
+  // Keep the latest options without restarting the polling loop
   useEffect(() => {
-    fnRef.current = fn;
-  }, [fn]);
+    optionsRef.current = options;
+  });
 
-  // Cleanup on unmount
-  useEffect(() => {
-    isActiveRef.current = true;
-    return () => {
-      isActiveRef.current = false;
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-    };
+  const clearTimer = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
   }, []);
 
-  // Single poll execution with error handling and retries
-  const executePoll = useCallback(
-    async (isRetry = false): Promise<void> => {
-      if (!isActiveRef.current) return;
+  // Single poll execution with error handling; resolves to whether it succeeded
+  const executePoll = useCallback(async (attempt: number): Promise<boolean> => {
+    if (!isActiveRef.current) return false;
+    const {
+      fn,
+      maxRetries = 3,
+      onError,
+      onSuccess,
+      getCursor,
+      cursorHeader,
+      getWaitTime,
+    } = optionsRef.current;
 
-      try {
-        setIsLoading(true);
-        if (!isRetry) {
-          setError(null);
-        }
+    // Create abort controller for this request, aborted by stop and unmount
+    const controller = new AbortController();
+    abortControllersRef.current.add(controller);
+    waitTimeRef.current = null;
 
-        // Create abort controller for this request
-        abortControllerRef.current = new AbortController();
+    try {
+      setIsLoading(true);
 
-        const result = await fnRef.current();
+      const { current: cursor } = cursorRef;
+      const headers: Record<string, string> = {};
+      if (cursor && cursor.type === "etag") {
+        headers["If-None-Match"] = cursor.value;
+      } else if (cursor && cursorHeader) {
+        headers[cursorHeader] = cursor.value;
+      }
 
-        if (!isActiveRef.current) return;
+      const result = await fn({
+        signal: controller.signal,
+        attempt,
+        previousData: dataRef.current,
+        cursor: cursor?.value ?? null,
+        headers,
+      });
+      const update: PollUpdate<T> =
+        typeof Response !== "undefined" && result instanceof Response
+          ? await readResponse<T>(result)
+          : { changed: result !== undefined, data: result as T, etag: null, waitTime: null };
 
-        setData(result);
-        setRetryCount(0);
-        setError(null);
-        onSuccess?.(result);
-      } catch (err) {
-        if (!isActiveRef.current) return;
+      // Responses arriving after stop() never overwrite the data
+      if (!isActiveRef.current || controller.signal.aborted) return false;
 
-        const error = err instanceof Error ? err : new Error(String(err));
+      waitTimeRef.current = update.waitTime;
+      if (update.error) {
+        throw update.error;
+      }
 
-        if (retryCount < maxRetries) {
-          const newRetryCount = retryCount + 1;
-          setRetryCount(newRetryCount);
-          onError?.(error, newRetryCount);
+      failuresRef.current = 0;
+      errorRef.current = null;
+      setRetryCount(0);
+      setError(null);
 
-          // Schedule retry
-          timeoutRef.current = setTimeout(() => {
-            if (isActiveRef.current && isRunning) {
-              executePoll(true);
-            }
-          }, retryDelay);
-        } else {
-          setError(error);
-          setRetryCount(0);
-          onError?.(error, retryCount + 1);
-
-          // Stop polling on max retries for interval polling
-          if (type === "interval") {
-            setIsRunning(false);
-          }
-        }
-      } finally {
-        if (isActiveRef.current) {
-          setIsLoading(false);
-        }
-      }
-    },
-    [retryCount, maxRetries, retryDelay, onError, onSuccess, type, isRunning]
-  );
-//   console.log(data);
-  // Long polling implementation with proper cleanup
-  const startLongPoll = useCallback(async (): Promise<void> => {
-    while (isActiveRef.current && isRunning) {
-      await executePoll();
-
-      // Add a small delay between long poll requests to prevent overwhelming
-      if (isActiveRef.current && isRunning) {
-        await new Promise((resolve) => {
-          timeoutRef.current = setTimeout(resolve, Math.min(interval, 100));
-        });
+      // No change keeps the current data and cursor
+      if (!update.changed) return true;
+
+      const next = update.data as T;
+      const nextCursor = getCursor?.(next);
+      if (nextCursor) {
+        cursorRef.current = { type: "custom", value: nextCursor };
+      } else if (update.etag) {
+        cursorRef.current = { type: "etag", value: update.etag };
       }
-    }
-  }, [executePoll, interval, isRunning]);
+      waitTimeRef.current = update.waitTime ?? getWaitTime?.(next) ?? null;
 
-  // Start polling based on type
-  const start = useCallback(() => {
-    setIsRunning(true);
-    setError(null);
-    setRetryCount(0);
+      dataRef.current = next;
+      setData(next);
+      onSuccess?.(next);
+      return true;
+    } catch (err) {
+      if (!isActiveRef.current || controller.signal.aborted) return false;
 
-    if (type === "interval") {
-      // Clear any existing interval
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+      const error = err instanceof Error ? err : new Error(String(err));
+      failuresRef.current += 1;
+      errorRef.current = error;
+      setRetryCount(failuresRef.current);
+      onError?.(error, failuresRef.current);
+
+      // Retries stay silent until they are exhausted
+      if (failuresRef.current > maxRetries) {
+        setError(error);
+      }
+      return false;
+    } finally {
+      abortControllersRef.current.delete(controller);
+      if (isActiveRef.current && abortControllersRef.current.size === 0) {
+        setIsLoading(false);
       }
+    }
+  }, []);
 
-      // Execute immediately, then set interval
-      executePoll();
-      intervalRef.current = setInterval(() => {
-        if (isActiveRef.current && isRunning) {
-          executePoll();
-        }
-      }, interval);
-    } else if (type === "long") {
-      startLongPoll();
+  // Delay before the next poll: the interval after a success, the backoff after a failure
+  const getNextDelay = useCallback((succeeded: boolean): number => {
+    const { type = "interval", interval = 1000, retryDelay = 1000, backoff = false } = optionsRef.current;
+
+    if (!succeeded) {
+      // The server-advised wait is a minimum, the backoff may still wait longer
+      const delay = getBackoffDelay(failuresRef.current, retryDelay, backoff);
+      return Math.max(waitTimeRef.current ?? 0, delay);
     }
-  }, [type, interval, executePoll, startLongPoll, isRunning]);
+    if (waitTimeRef.current !== null) {
+      return waitTimeRef.current;
+    }
+
+    const delay =
+      typeof interval === "function" ? interval(dataRef.current, errorRef.current) : interval;
+    // Long polling reconnects right away, with a small gap to prevent overwhelming the server
+    return type === "long" ? Math.min(delay, 100) : delay;
+  }, []);
 
   // Stop polling
   const stop = useCallback(() => {
+    isRunningRef.current = false;
+    runRef.current += 1;
+    pausedRunRef.current = null;
     setIsRunning(false);
-    console.log("polling stopped");
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+    setPauseReason(null);
+    clearTimer();
 
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
+    abortControllersRef.current.forEach((controller) => controller.abort());
+    abortControllersRef.current.clear();
+    setIsLoading(false);
+  }, [clearTimer]);
+
+  // Condition polling should currently be paused for, if any
+  const getPauseReason = useCallback((): UsePollingPauseReason | null => {
+    const { pauseWhenHidden = false, pauseWhenOffline = false } = optionsRef.current;
+
+    if (pauseWhenOffline && typeof navigator !== "undefined" && navigator.onLine === false) {
+      return "offline";
+    }
+    if (pauseWhenHidden && typeof document !== "undefined" && document.visibilityState === "hidden") {
+      return "hidden";
     }
+    return null;
+  }, []);
+
+  // Reason polling should end for after a poll, if any
+  const getCompleteReason = useCallback((succeeded: boolean): UsePollingCompleteReason | null => {
+    const { until, maxAttempts, maxDuration } = optionsRef.current;
 
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
+    // Nothing is checked until a poll has returned data
+    if (succeeded && dataRef.current !== null && until?.(dataRef.current)) return "until";
+    if (maxAttempts !== undefined && attemptsRef.current >= maxAttempts) return "maxAttempts";
+    if (maxDuration !== undefined && Date.now() - startedAtRef.current >= maxDuration) {
+      return "maxDuration";
     }
-    setIsLoading(false);
+    return null;
   }, []);
 
-  // Manual poll function
+  // Report an error thrown by a callback; polling cannot go on without it, so it stops
+  const fail = useCallback(
+    (err: unknown) => {
+      stop();
+      const error = err instanceof Error ? err : new Error(String(err));
+      errorRef.current = error;
+      setError(error);
+      optionsRef.current.onError?.(error, failuresRef.current);
+    },
+    [stop]
+  );
+
+  // Stop polling for good once a stop condition is met
+  const complete = useCallback(
+    (reason: UsePollingCompleteReason) => {
+      stop();
+      setIsComplete(true);
+      try {
+        optionsRef.current.onComplete?.(dataRef.current, reason);
+      } catch (err) {
+        fail(err);
+      }
+    },
+    [stop, fail]
+  );
+
+  // Suspend the loop of a run until the pause conditions clear
+  const pause = useCallback((run: number, reason: UsePollingPauseReason) => {
+    pausedRunRef.current = run;
+    setPauseReason(reason);
+  }, []);
+
+  // Poll, then schedule the next poll while the run is still current
+  const tick = useCallback(
+    async (run: number): Promise<void> => {
+      const pauseBefore = getPauseReason();
+      if (pauseBefore) {
+        pause(run, pauseBefore);
+        return;
+      }
+
+      let succeeded: boolean;
+      isPollingRef.current = true;
+      attemptsRef.current += 1;
+      try {
+        succeeded = await executePoll(attemptsRef.current);
+      } catch (err) {
+        // onError threw while reporting a failed poll
+        if (isActiveRef.current && runRef.current === run) fail(err);
+        return;
+      } finally {
+        isPollingRef.current = false;
+      }
+      if (!isActiveRef.current || runRef.current !== run) return;
+
+      // `until` and the interval function run here: errors they throw end polling
+      const { maxDuration } = optionsRef.current;
+      let delay: number;
+      try {
+        const reason = getCompleteReason(succeeded);
+        if (reason) {
+          complete(reason);
+          return;
+        }
+
+        const pauseAfter = getPauseReason();
+        if (pauseAfter) {
+          pause(run, pauseAfter);
+          return;
+        }
+
+        delay = getNextDelay(succeeded);
+      } catch (err) {
+        fail(err);
+        return;
+      }
+
+      // Never wait past maxDuration, so completion is reported on time
+      if (maxDuration !== undefined) {
+        delay = Math.min(delay, Math.max(0, startedAtRef.current + maxDuration - Date.now()));
+      }
+
+      clearTimer();
+      timeoutRef.current = setTimeout(() => {
+        if (maxDuration !== undefined && Date.now() - startedAtRef.current >= maxDuration) {
+          complete("maxDuration");
+        } else {
+          tick(run);
+        }
+      }, delay);
+    },
+    [executePoll, getNextDelay, getPauseReason, pause, getCompleteReason, complete, fail, clearTimer]
+  );
+
+  // Start polling, with an immediate first poll
+  const start = useCallback(() => {
+    if (isRunningRef.current) return;
+
+    isRunningRef.current = true;
+    failuresRef.current = 0;
+    attemptsRef.current = 0;
+    startedAtRef.current = Date.now();
+    setIsRunning(true);
+    setIsComplete(false);
+    setError(null);
+    setRetryCount(0);
+    tick(++runRef.current);
+  }, [tick]);
+
+  // Manual poll function; it does not count toward maxAttempts
   const poll = useCallback(async (): Promise<void> => {
-    await executePoll();
+    await executePoll(attemptsRef.current + 1);
   }, [executePoll]);
 
   // Reset error state and retry count
   const reset = useCallback(() => {
+    failuresRef.current = 0;
     setError(null);
     setRetryCount(0);
   }, []);
 
-  // Effect to handle running state changes
+  // Pause when the page is hidden or offline, and resume with an immediate poll
+  const { pauseWhenHidden = false, pauseWhenOffline = false } = options;
   useEffect(() => {
-    if (isRunning) {
-      start();
-    } else {
-      stop();
-    }
-  }, [isRunning]); // Note: Don't include start/stop to avoid infinite loops
+    if (!pauseWhenHidden && !pauseWhenOffline) return;
 
-  // Auto-start effect
+    const handleChange = () => {
+      if (!isRunningRef.current) return;
+      const run = runRef.current;
+      const reason = getPauseReason();
+
+      if (reason) {
+        clearTimer();
+        pause(run, reason);
+        return;
+      }
+
+      setPauseReason(null);
+      if (pausedRunRef.current === run) {
+        pausedRunRef.current = null;
+        // A poll still in flight schedules the next one itself
+        if (!isPollingRef.current) {
+          clearTimer();
+          tick(run);
+        }
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleChange);
+    window.addEventListener("online", handleChange);
+    window.addEventListener("offline", handleChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleChange);
+      window.removeEventListener("online", handleChange);
+      window.removeEventListener("offline", handleChange);
+    };
+  }, [pauseWhenHidden, pauseWhenOffline, getPauseReason, pause, clearTimer, tick]);
+
+  // Auto-start, and cleanup on unmount
   useEffect(() => {
-    if (autoStart && isActiveRef.current) {
-      setIsRunning(true);
+    isActiveRef.current = true;
+    if (autoStart) {
+      start();
     }
-  }, [autoStart]);
+
+    return () => {
+      stop();
+      isActiveRef.current = false;
+    };
+  }, [autoStart, start, stop]);
 
   return {
     data,
@@ -270,8 +606,10 @@ export const usePolling = <T = any>({
     isRunning,
     error,
     retryCount,
-    start: () => setIsRunning(true),
-    stop: () => setIsRunning(false),
+    isComplete,
+    pauseReason,
+    start,
+    stop,
     poll,
     reset,
   };